@@ -1,23 +1,142 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { supabase } from './services/supabase';
 import { 
   Transaction, 
   TransactionType, 
   User, 
   ParseResult, 
-  AppState 
+  PendingEntry,
+  AppState,
+  SyncSummary,
+  QueryAnswer,
+  TransactionChanges,
+  Product,
+  StockLevel,
+  DebtKind,
+  HistoryFilter,
+  AppTab,
+  Member,
+  Role,
+  RecurringTemplate,
+  DueEntry,
+  Category,
+  Invoice,
+  InvoiceSummary,
+  PaymentReceipt,
+  BusinessDocument
 } from './types';
 import { 
   getStoredTransactions, 
+  getLedgerSummary,
+  getTransactionsPage,
+  getAllTransactions,
+  getCachedLedger,
+  cacheLedger,
+  ledgerSince,
+  PageCursor,
   saveTransaction, 
+  saveTransactions,
+  syncPendingTransactions,
+  discardQueuedTransaction,
+  applySyncedTransactions,
+  subscribeToLedger,
+  applyLedgerChange,
+  updateTransaction,
+  voidTransaction,
+  isActiveTransaction,
+  saveReceipt,
+  getReceiptUrl,
   saveUserProfile,
+  saveBusiness,
   getUserProfile,
+  getMembers,
+  inviteMember,
+  updateMemberRole,
+  removeMember,
+  getProducts,
+  saveProducts,
+  getRecurringTemplates,
+  saveRecurringTemplates,
+  getCategories,
+  saveCategories,
+  deleteCategory,
+  recategorizeTransactions,
+  getInvoices,
+  saveInvoices,
+  getPaymentReceipts,
+  savePaymentReceipts,
+  allocateDocumentNumber,
+  getDocumentLink,
+  stampLedgerCurrency,
   logoutUser
 } from './utils/storage';
-import { parseInputText } from './services/geminiService';
+import { isDemoMode, parseInputText, parseReceiptImage, startVoiceInput } from './services/aiService';
+import { VoiceCapture } from './utils/voice';
+import { readFileAsBase64 } from './utils/files';
+import { answerQuery } from './utils/queryEngine';
+import { correctedFields, resolveEntry } from './utils/entries';
+import { computeStockLevels, linkLineItems } from './utils/inventory';
+import { computeDebtBalances, counterpartyKey, getStatementLines, paymentTypeFor } from './utils/debts';
+import { invoiceDocument, invoicedTransactionIds, newInvoice, receiptDocument, summarizeInvoice } from './utils/invoices';
+import { isInflow, isOutflow, matchesHistoryFilter, totalInflow, totalOutflow, totalsByCategory } from './utils/ledger';
+import { buildReportPdf } from './utils/pdfReport';
+import { downloadBlob, shareFile } from './utils/share';
+import {
+  ExchangeRates,
+  DEFAULT_CURRENCY,
+  DEFAULT_RATES,
+  SUPPORTED_CURRENCIES,
+  getExchangeRates,
+  saveExchangeRates,
+  convert,
+  toBaseCurrency,
+  formatMoney
+} from './utils/currency';
 import { Icons, COLORS } from './constants';
 import { SummaryCard } from './components/SummaryCard';
 import { TransactionCard } from './components/TransactionCard';
+import { TransactionEditor } from './components/TransactionEditor';
+import { CounterpartyLedger } from './components/CounterpartyLedger';
+import { CurrencySettings } from './components/CurrencySettings';
+import { ImportPreview } from './components/ImportPreview';
+import { PeriodComparison } from './components/PeriodComparison';
+import { DashboardCharts } from './components/DashboardCharts';
+import { EntryReview } from './components/EntryReview';
+import { ProductEditor } from './components/ProductEditor';
+import { TeamSettings } from './components/TeamSettings';
+import { RecurringEditor } from './components/RecurringEditor';
+import { DueEntries } from './components/DueEntries';
+import { CategorySettings } from './components/CategorySettings';
+import { CategoryEditor } from './components/CategoryEditor';
+import { DocumentViewer } from './components/DocumentViewer';
+import { BudgetOverview } from './components/BudgetOverview';
+import { ExportFormat, SpreadsheetData, exportLedger, guessColumnMapping, importDateRange, readSpreadsheet } from './utils/spreadsheet';
+import {
+  ReportPeriod,
+  REPORT_PERIODS,
+  WEEK_START_OPTIONS,
+  DateRange,
+  addMonths,
+  isInRange,
+  previousPeriod,
+  resolvePeriod,
+  startOfMonth,
+  toDateInputValue,
+  withLocalDate
+} from './utils/dates';
+import { getLocalSetting, putLocalSetting } from './utils/localStore';
+import { can, canOpen, homeTab } from './utils/permissions';
+import { describeSchedule, dueEntries, entryFor, newTemplate, templateFromParse } from './utils/recurring';
+import {
+  budgetAlerts,
+  budgetProgress,
+  categoryKey,
+  categorySpellings,
+  mergeCategories,
+  missingCategories,
+  newCategory,
+  normalizeCategory
+} from './utils/categories';
 
 const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
@@ -25,19 +144,56 @@ const App: React.FC = () => {
     transactions: [],
     isLoading: true,
   });
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'history' | 'record' | 'debts' | 'settings'>('dashboard');
+  const [activeTab, setActiveTab] = useState<AppTab>('dashboard');
   const [inputText, setInputText] = useState('');
   const [parsing, setParsing] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [pendingConfirm, setPendingConfirm] = useState<ParseResult | null>(null);
+  const [syncSummary, setSyncSummary] = useState<SyncSummary>({ pending: 0, failed: 0 });
+  const [pendingConfirm, setPendingConfirm] = useState<PendingEntry[] | null>(null);
+  const [pendingReceipt, setPendingReceipt] = useState<File | null>(null);
+  const [receiptPreview, setReceiptPreview] = useState<string | null>(null);
+  const [receiptViewer, setReceiptViewer] = useState<string | null>(null);
+  const [conversation, setConversation] = useState<QueryAnswer[]>([]);
+  const [editingTx, setEditingTx] = useState<Transaction | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRates>(DEFAULT_RATES);
+  const [selectedAccount, setSelectedAccount] = useState<{ key: string; kind: DebtKind } | null>(null);
+  // The open account's single entries, older ones included; null until they are loaded.
+  const [accountEntries, setAccountEntries] = useState<Transaction[] | null>(null);
+  const receiptInputRef = useRef<HTMLInputElement>(null);
+  const voiceRef = useRef<VoiceCapture | null>(null);
+  const [listening, setListening] = useState(false);
+  const [importData, setImportData] = useState<{ fileName: string; data: SpreadsheetData; existing: Transaction[] } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const [reportModal, setReportModal] = useState<'select' | 'view' | null>(null);
-  const [reportType, setReportType] = useState<'daily' | 'weekly' | 'monthly' | null>(null);
+  const [reportPeriod, setReportPeriod] = useState<ReportPeriod | null>(null);
+  const [customRange, setCustomRange] = useState({ from: '', to: '' });
+  // The single entries of the report period, for its log and PDF; null until they are loaded.
+  const [reportEntries, setReportEntries] = useState<Transaction[] | null>(null);
+  const [weekStartsOn, setWeekStartsOn] = useState(1);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter | null>(null);
+  // Entries older than the loaded window, fetched page by page as History scrolls.
+  const [olderHistory, setOlderHistory] = useState<Transaction[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<PageCursor | null>(null);
+  const [historyDone, setHistoryDone] = useState(false);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const historyEndRef = useRef<HTMLDivElement>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [editingProduct, setEditingProduct] = useState<StockLevel | 'new' | null>(null);
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([]);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringTemplate | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [paymentReceipts, setPaymentReceipts] = useState<PaymentReceipt[]>([]);
+  const [viewingDocument, setViewingDocument] = useState<BusinessDocument | null>(null);
   
   // Auth Form State
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [isSignUp, setIsSignUp] = useState(false);
   const [businessNameInput, setBusinessNameInput] = useState('');
+  const [currencyInput, setCurrencyInput] = useState(DEFAULT_CURRENCY);
   const [authError, setAuthError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -90,17 +246,127 @@ const App: React.FC = () => {
     };
   }, []);
 
+  useEffect(() => {
+    const user = state.user;
+    if (!user) return;
+    const userId = user.id;
+
+    runSync(user);
+    getExchangeRates(userId).then(setExchangeRates);
+    getProducts(user.businessId)
+      .then(setProducts)
+      .catch(err => console.error("Products read error:", err));
+    getCategories(user.businessId)
+      .then(setCategories)
+      .catch(err => console.error("Categories read error:", err));
+    if (user.role !== 'attendant') {
+      getMembers(user.businessId).then(setMembers);
+      getRecurringTemplates(user.businessId)
+        .then(setTemplates)
+        .catch(err => console.error("Recurring templates read error:", err));
+      getInvoices(user.businessId)
+        .then(setInvoices)
+        .catch(err => console.error("Invoices read error:", err));
+      getPaymentReceipts(user.businessId)
+        .then(setPaymentReceipts)
+        .catch(err => console.error("Payment receipts read error:", err));
+    }
+    getLocalSetting<number>(userId, 'weekStartsOn')
+      .then(value => setWeekStartsOn(value ?? 1))
+      .catch(err => console.error("Settings read error:", err));
+    const unsubscribe = subscribeToLedger(
+      user,
+      change => {
+        // Older entries are only held as day totals, which have to be fetched again.
+        if (change.kind === 'upsert' && change.transaction.date < ledgerSince()) reloadLedger(user);
+        else setState(prev => ({ ...prev, transactions: applyLedgerChange(prev.transactions, change) }));
+      },
+      () => reloadLedger(user)
+    );
+    const handleOnline = () => runSync(user);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      unsubscribe();
+    };
+  }, [state.user?.id]);
+
+  useEffect(() => {
+    if (!pendingReceipt) {
+      setReceiptPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(pendingReceipt);
+    setReceiptPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [pendingReceipt]);
+
+  // Leaving the Record tab hides the mic button, so stop listening too.
+  useEffect(() => {
+    if (activeTab === 'record' || !voiceRef.current) return;
+    voiceRef.current.cancel();
+    voiceRef.current = null;
+    setListening(false);
+  }, [activeTab]);
+
+  const runSync = async (user: User, retryFailed = false) => {
+    setIsSyncing(true);
+    try {
+      const { synced, summary } = await syncPendingTransactions(user.id, retryFailed);
+      if (synced.some(s => s.transaction.date < ledgerSince())) {
+        reloadLedger(user);
+      } else if (synced.length > 0) {
+        setState(prev => ({ ...prev, transactions: applySyncedTransactions(prev.transactions, synced) }));
+      }
+      setSyncSummary(summary);
+    } catch (err) {
+      console.error("Sync error:", err);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  // Recent entries one by one, everything older as day totals.
+  const fetchLedger = async (user: User) => {
+    const since = ledgerSince();
+    const [recent, summary] = await Promise.all([getStoredTransactions(user, since), getLedgerSummary(user, since)]);
+    const transactions = [...recent, ...summary];
+    cacheLedger({ user, since, transactions }).catch(err => console.error("Cache write error:", err));
+    return { transactions, ledgerSince: since };
+  };
+
+  const reloadLedger = async (user: User) => {
+    try {
+      const ledger = await fetchLedger(user);
+      setState(prev => ({ ...prev, ...ledger }));
+    } catch (err) {
+      console.error("Fetch error:", err);
+    }
+  };
+
   const loadUserData = async (userId: string, userEmail: string) => {
     setIsSyncing(true);
+    // Open on the last loaded ledger straight away, then refresh it.
+    const cached = await getCachedLedger(userId).catch(err => {
+      console.error("Cache read error:", err);
+      return undefined;
+    });
+    if (cached) {
+      setState({ user: cached.user, transactions: cached.transactions, ledgerSince: cached.since, isLoading: false });
+      setActiveTab(homeTab(cached.user.role));
+    }
     try {
-      const profile = await getUserProfile(userId);
-      const txs = await getStoredTransactions(userId);
+      const user: User = await getUserProfile(userId, userEmail)
+        || cached?.user
+        || { id: userId, email: userEmail, businessId: userId, role: 'owner', businessName: 'My Business', currency: DEFAULT_CURRENCY };
+      const ledger = await fetchLedger(user);
       
       setState({ 
-        user: profile ? { ...profile, email: userEmail } : { id: userId, email: userEmail, businessName: 'My Business', currency: 'UGX' }, 
-        transactions: txs || [], 
+        user, 
+        ...ledger,
         isLoading: false 
       });
+      if (!cached) setActiveTab(homeTab(user.role));
     } catch (error) {
       console.error("Data load error:", error);
       setState(prev => ({ ...prev, isLoading: false }));
@@ -126,8 +392,10 @@ const App: React.FC = () => {
           const newUser: User = {
             id: data.user.id,
             email: email,
+            businessId: data.user.id,
+            role: 'owner',
             businessName: businessNameInput,
-            currency: 'UGX'
+            currency: currencyInput
           };
           await saveUserProfile(newUser);
           setState(prev => ({ ...prev, user: newUser, isLoading: false }));
@@ -142,18 +410,47 @@ const App: React.FC = () => {
     }
   };
 
+  // Entries dated by the parser keep the current time of day on that day. Categories are shown
+  // in their managed spelling so budgets match.
+  const toPendingEntries = (result: ParseResult): PendingEntry[] => {
+    const now = new Date().toISOString();
+    return (result.entries || []).map(parsed => {
+      const day = parsed.date || result.date;
+      const date = day ? withLocalDate(now, day) : now;
+      const entry = { ...parsed, category: normalizeCategory(parsed.category, categories) };
+      return {
+        ...entry,
+        key: crypto.randomUUID(),
+        confirmed: true,
+        date,
+        parsed: { ...entry, date }
+      };
+    });
+  };
+
   const handleAction = async (textOverride?: string) => {
     const textToParse = textOverride || inputText;
     if (!textToParse.trim()) return;
     
     setParsing(true);
     try {
-      const result = await parseInputText(textToParse);
-      if (result.intent === 'RECORD') {
-        setPendingConfirm(result);
+      const result = await parseInputText(textToParse, categories);
+      if (result.intent === 'RECORD' && result.entries?.length) {
+        setPendingConfirm(toPendingEntries(result));
         setActiveTab('record');
+      } else if (result.intent === 'RECURRING') {
+        const template = templateFromParse(result, baseCurrency);
+        if (!template) return;
+        if (state.user && !can(state.user.role, 'manageSettings')) {
+          alert("Only the owner or a manager can set up recurring entries.");
+          return;
+        }
+        setEditingTemplate(template);
+        setInputText('');
       } else if (result.intent === 'QUERY') {
-        if (result.queryRange) setActiveTab('history');
+        const reply = answerQuery(result, ledgerTransactions, baseCurrency, weekStartsOn);
+        setConversation(prev => [...prev, reply]);
+        setActiveTab('record');
         setInputText('');
       }
     } catch (err) {
@@ -163,80 +460,666 @@ const App: React.FC = () => {
     }
   };
 
-  const confirmTransaction = async () => {
+  const handleReceiptCapture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setParsing(true);
+    try {
+      const base64 = await readFileAsBase64(file);
+      const result = await parseReceiptImage(base64, file.type, categories);
+      if (result.intent !== 'RECORD' || !result.entries?.length) {
+        alert("Could not read that receipt. Try a clearer photo.");
+        return;
+      }
+      setPendingReceipt(file);
+      setPendingConfirm(toPendingEntries(result));
+    } catch (err) {
+      console.error("Receipt Error:", err);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const toggleVoice = async () => {
+    const capture = voiceRef.current;
+    if (!capture) {
+      try {
+        voiceRef.current = await startVoiceInput();
+        setListening(true);
+      } catch (err: any) {
+        console.error("Voice Error:", err);
+        alert("Could not start the microphone: " + err.message);
+      }
+      return;
+    }
+
+    voiceRef.current = null;
+    setListening(false);
+    setParsing(true);
+    try {
+      const text = await capture.stop();
+      if (!text) {
+        alert("Didn't catch that. Try again a little closer to the phone.");
+        return;
+      }
+      setInputText(text);
+      await handleAction(text);
+    } catch (err) {
+      console.error("Voice Error:", err);
+      alert("Could not understand the recording. Try again or type it in.");
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const clearPending = () => {
+    setPendingConfirm(null);
+    setPendingReceipt(null);
+  };
+
+  const openReceipt = async (tx: Transaction) => {
+    if (!tx.receiptPath) return;
+    const url = await getReceiptUrl(tx.receiptPath);
+    if (url) setReceiptViewer(url);
+    else alert("Receipt is not available right now.");
+  };
+
+  const closeReceipt = () => {
+    if (receiptViewer?.startsWith('blob:')) URL.revokeObjectURL(receiptViewer);
+    setReceiptViewer(null);
+  };
+
+  const confirmTransactions = async () => {
     if (!pendingConfirm || !state.user) return;
-    
-    const newTx: Omit<Transaction, 'id'> = {
-      type: pendingConfirm.type || TransactionType.INCOME,
-      amount: pendingConfirm.amount || 0,
-      category: pendingConfirm.category || 'General',
-      counterparty: pendingConfirm.counterparty,
-      date: new Date().toISOString(),
-    };
+    const user = state.user;
 
-    setIsSyncing(true);
     try {
-      const docId = await saveTransaction(state.user.id, newTx);
-      const fullTx: Transaction = { ...newTx, id: docId };
-      setState(prev => ({ ...prev, transactions: [fullTx, ...prev.transactions] }));
-      setPendingConfirm(null);
+      const receiptPath = pendingReceipt ? await saveReceipt(user.businessId, pendingReceipt) : undefined;
+      let nextProducts = products;
+      const changedProducts = new Map<string, Product>();
+      const newTxs: Omit<Transaction, 'id'>[] = pendingConfirm.filter(e => e.confirmed).map(entry => {
+        // Parsed entries always carry their corrections, so an empty list means the parser got it right.
+        const corrections = correctedFields(entry, baseCurrency);
+        const tx = resolveEntry(entry, baseCurrency);
+        tx.category = normalizeCategory(tx.category, categories);
+        if (tx.items) {
+          const rate = convert(1, tx.currency || baseCurrency, baseCurrency, exchangeRates);
+          const linked = linkLineItems(nextProducts, tx.items, tx.type, rate);
+          tx.items = linked.items;
+          nextProducts = linked.products;
+          linked.changed.forEach(p => changedProducts.set(p.id, p));
+        }
+        return {
+          ...tx,
+          corrections,
+          ...(receiptPath ? { receiptPath } : {}),
+        };
+      });
+      const queued = await saveTransactions(user, newTxs);
+      addCategories(newTxs);
+      if (changedProducts.size > 0) {
+        setProducts(nextProducts);
+        saveProducts(user.businessId, [...changedProducts.values()], nextProducts).catch(err => console.error("Products save error:", err));
+      }
+      // Backdated entries go to their own day rather than the top of the list.
+      setState(prev => ({
+        ...prev,
+        transactions: [...queued.reverse(), ...prev.transactions].sort((a, b) => b.date.localeCompare(a.date))
+      }));
+      clearPending();
       setInputText('');
-      setActiveTab('dashboard');
+      setActiveTab(homeTab(user.role));
+      runSync(user);
     } catch (err: any) {
-      alert("Error saving: " + err.message);
-    } finally {
-      setIsSyncing(false);
+      alert("Could not save on this device: " + err.message);
     }
   };
 
-  const settleDebt = async (name: string, balance: number) => {
+  const replaceTransaction = (updated: Transaction) => {
+    setState(prev => ({ ...prev, transactions: prev.transactions.map(t => t.id === updated.id ? updated : t) }));
+    setOlderHistory(prev => prev.map(t => t.id === updated.id ? updated : t));
+  };
+
+  const saveEdit = async (changes: TransactionChanges) => {
+    if (!editingTx || !state.user) return;
+    try {
+      const category = changes.category === undefined ? undefined : normalizeCategory(changes.category, categories);
+      const updated = await updateTransaction(state.user, editingTx, category ? { ...changes, category } : changes);
+      if (category) addCategories([{ type: changes.type || editingTx.type, category }]);
+      replaceTransaction(updated);
+      setEditingTx(null);
+      runSync(state.user);
+    } catch (err: any) {
+      alert("Could not save on this device: " + err.message);
+    }
+  };
+
+  const voidEntry = async (tx: Transaction) => {
+    if (!state.user) return;
+    if (!confirm("Void this entry? It will stay in the history but no longer count towards totals.")) return;
+    try {
+      const voided = await voidTransaction(state.user, tx);
+      replaceTransaction(voided);
+      setEditingTx(null);
+      runSync(state.user);
+    } catch (err: any) {
+      alert("Could not save on this device: " + err.message);
+    }
+  };
+
+  // Drops an entry Supabase keeps rejecting; the ledger is reloaded to show the server's copy.
+  const discardEntry = async (tx: Transaction) => {
+    if (!state.user) return;
+    if (!confirm("Discard this entry? What hasn't synced is removed from this device.")) return;
+    try {
+      setSyncSummary(await discardQueuedTransaction(state.user.id, tx.id));
+      setEditingTx(null);
+      reloadLedger(state.user);
+    } catch (err: any) {
+      alert("Could not discard it: " + err.message);
+    }
+  };
+
+  const exportTransactions = (transactions: Transaction[], format: ExportFormat, label: string) => {
+    exportLedger(transactions, format, `kazi-${label}-${toDateInputValue(new Date().toISOString())}`);
+  };
+
+  // Only recent entries are held on the device, and older ones only as day totals, so anything
+  // that lists single entries fetches them from Supabase, together with those still in the outbox.
+  const loadEntries = async (user: User, filter: HistoryFilter | null): Promise<Transaction[]> => {
+    const stored = new Map((await getAllTransactions(user, filter)).map(t => [t.id, t]));
+    recentEntries
+      .filter(t => t.syncStatus && (!filter || matchesHistoryFilter(t, filter)))
+      .forEach(t => stored.set(t.id, t));
+    return [...stored.values()].filter(isActiveTransaction).sort((a, b) => b.date.localeCompare(a.date));
+  };
+
+  const exportStored = async (filter: HistoryFilter | null, format: ExportFormat, label: string) => {
+    if (!state.user) return;
+    try {
+      exportTransactions(await loadEntries(state.user, filter), format, label);
+    } catch (err: any) {
+      alert("Could not load the ledger: " + err.message);
+    }
+  };
+
+  // Exports the original entries, not the base-currency copies the report totals use.
+  const exportReport = (format: ExportFormat) => {
+    if (!reportData) return;
+    const { start, end } = reportData.range;
+    exportStored({ label: reportData.range.label, from: start.toISOString(), to: end.toISOString() }, format, reportData.period.replace('_', '-'));
+  };
+
+  const buildReport = () => {
+    if (!reportData || !reportEntries || !state.user) return null;
+    const pdf = buildReportPdf({
+      businessName: state.user.businessName,
+      currency: baseCurrency,
+      periodLabel: `${reportData.periodName} (${reportData.range.label})`,
+      totalIn: reportData.totalIn,
+      totalOut: reportData.totalOut,
+      net: reportData.net,
+      incomeByCategory: totalsByCategory(reportData.transactions, isInflow),
+      expenseByCategory: totalsByCategory(reportData.transactions, isOutflow),
+      debtors: debtBalances,
+      transactions: reportEntries,
+    });
+    const slug = state.user.businessName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'kazi';
+    return { pdf, fileName: `${slug}-${reportData.period.replace('_', '-')}-report-${toDateInputValue(new Date().toISOString())}.pdf` };
+  };
+
+  const downloadReport = () => {
+    const report = buildReport();
+    if (report) downloadBlob(report.pdf, report.fileName);
+  };
+
+  const shareReport = async () => {
+    const report = buildReport();
+    if (report) await shareFile(report.pdf, report.fileName, `${state.user?.businessName} Business Report`);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let data: SpreadsheetData;
+    try {
+      data = await readSpreadsheet(file);
+    } catch (err: any) {
+      alert("Could not read that file: " + err.message);
+      return;
+    }
+    if (data.rows.length === 0) {
+      alert("That file has no rows to import.");
+      return;
+    }
+    try {
+      setImportData({ fileName: file.name, data, existing: await loadImportExisting(data) });
+    } catch (err: any) {
+      alert("Could not check the file for entries already recorded: " + err.message);
+    }
+  };
+
+  // Entries the file's rows could duplicate: those on the device when the file is all recent,
+  // otherwise every entry of the days it covers.
+  const loadImportExisting = async (data: SpreadsheetData): Promise<Transaction[]> => {
+    const range = importDateRange(data, guessColumnMapping(data.headers));
+    if (!state.user || !range || (state.ledgerSince && range.from >= state.ledgerSince)) return recentEntries;
+    return loadEntries(state.user, { label: 'Import', ...range });
+  };
+
+  const importTransactions = async (rows: Omit<Transaction, 'id'>[]) => {
+    if (!state.user) return;
+    try {
+      const txs = rows.map(tx => ({ ...tx, category: normalizeCategory(tx.category, categories) }));
+      const queued = await saveTransactions(state.user, txs);
+      addCategories(txs);
+      setState(prev => ({
+        ...prev,
+        transactions: [...queued, ...prev.transactions].sort((a, b) => b.date.localeCompare(a.date))
+      }));
+      setImportData(null);
+      runSync(state.user);
+    } catch (err: any) {
+      alert("Could not save on this device: " + err.message);
+    }
+  };
+
+  const openReport = (period: ReportPeriod) => {
+    setReportPeriod(period);
+    setReportModal('view');
+  };
+
+  const changeWeekStart = async (day: number) => {
+    if (!state.user) return;
+    setWeekStartsOn(day);
+    await putLocalSetting(state.user.id, 'weekStartsOn', day).catch(err => console.error("Settings save error:", err));
+  };
+
+  // Entries without a currency are in the old base, so they are stamped with it before it changes.
+  const changeBaseCurrency = async (currency: string) => {
+    if (!state.user) return;
+    const previous = state.user.currency;
+    try {
+      await stampLedgerCurrency(state.user, previous);
+    } catch (err: any) {
+      alert("Could not change the currency: " + err.message);
+      return;
+    }
+    const stamp = (t: Transaction) => t.currency ? t : { ...t, currency: previous };
+    const updatedUser: User = { ...state.user, currency };
+    setState(prev => ({ ...prev, user: updatedUser, transactions: prev.transactions.map(stamp) }));
+    setOlderHistory(prev => prev.map(stamp));
+    await saveBusiness(updatedUser).catch(err => console.error("Business save error:", err));
+  };
+
+  const changeExchangeRates = async (rates: ExchangeRates) => {
+    if (!state.user) return;
+    setExchangeRates(rates);
+    await saveExchangeRates(state.user.id, rates).catch(err => console.error("Rates save error:", err));
+  };
+
+  const settleDebt = async (name: string, amount: number, kind: DebtKind = 'receivable', date = new Date().toISOString()) => {
     if (!state.user) return;
     const paymentTx: Omit<Transaction, 'id'> = {
-      type: TransactionType.DEBT_PAYMENT,
-      amount: balance,
+      type: paymentTypeFor(kind),
+      amount,
+      currency: state.user.currency,
       category: 'Settlement',
       counterparty: name,
-      date: new Date().toISOString(),
+      date,
     };
-    setIsSyncing(true);
     try {
-      const docId = await saveTransaction(state.user.id, paymentTx);
-      const fullTx: Transaction = { ...paymentTx, id: docId };
-      setState(prev => ({ ...prev, transactions: [fullTx, ...prev.transactions] }));
+      const queuedTx = await saveTransaction(state.user, paymentTx);
+      setState(prev => ({
+        ...prev,
+        transactions: [queuedTx, ...prev.transactions].sort((a, b) => b.date.localeCompare(a.date))
+      }));
+      if (kind === 'receivable') issueReceipt(name, amount, date);
+      runSync(state.user);
     } catch (err: any) {
-      alert("Sync error: " + err.message);
+      alert("Could not save on this device: " + err.message);
+    }
+  };
+
+  const activeTransactions = useMemo(() => state.transactions.filter(isActiveTransaction), [state.transactions]);
+  const recentEntries = useMemo(() => activeTransactions.filter(t => !t.entryCount), [activeTransactions]);
+
+  // Every total, balance and report works on amounts restated in the business currency.
+  const baseCurrency = state.user?.currency || DEFAULT_CURRENCY;
+  const ledgerTransactions = useMemo(
+    () => toBaseCurrency(activeTransactions, baseCurrency, exchangeRates),
+    [activeTransactions, baseCurrency, exchangeRates]
+  );
+
+  const historyTransactions = useMemo(() => {
+    const entries = state.transactions.filter(t => !t.entryCount && (!historyFilter || matchesHistoryFilter(t, historyFilter)));
+    return [...entries, ...olderHistory];
+  }, [state.transactions, historyFilter, olderHistory]);
+
+  const openHistory = (filter: HistoryFilter | null) => {
+    setHistoryFilter(filter);
+    setActiveTab('history');
+  };
+
+  useEffect(() => {
+    setOlderHistory([]);
+    setHistoryCursor(null);
+    setHistoryDone(false);
+  }, [historyFilter, state.ledgerSince]);
+
+  const loadOlderHistory = async () => {
+    if (!state.user || loadingHistory || historyDone) return;
+    setLoadingHistory(true);
+    try {
+      const page = await getTransactionsPage(state.user, historyFilter, historyCursor, state.ledgerSince);
+      setOlderHistory(prev => [...prev, ...page.transactions]);
+      setHistoryCursor(page.cursor);
+      setHistoryDone(!page.cursor);
+    } catch (err) {
+      console.error("Fetch error:", err);
+      setHistoryDone(true);
     } finally {
-      setIsSyncing(false);
+      setLoadingHistory(false);
     }
   };
 
-  const debtBalances = useMemo(() => {
-    const balances: Record<string, number> = {};
-    state.transactions.forEach(tx => {
-      if (tx.counterparty) {
-        const name = tx.counterparty.trim();
-        if (!balances[name]) balances[name] = 0;
-        if (tx.type === TransactionType.DEBT) balances[name] += tx.amount;
-        else if (tx.type === TransactionType.DEBT_PAYMENT) balances[name] -= tx.amount;
-      }
+  // Infinite scroll: fetch the next page whenever the end of the list comes into view.
+  useEffect(() => {
+    const end = historyEndRef.current;
+    if (activeTab !== 'history' || !end || historyDone || loadingHistory) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) loadOlderHistory();
+    }, { rootMargin: '400px' });
+    observer.observe(end);
+    return () => observer.disconnect();
+  }, [activeTab, historyDone, loadingHistory, historyCursor, historyFilter]);
+
+  const stockLevels = useMemo(() => computeStockLevels(products, ledgerTransactions), [products, ledgerTransactions]);
+  const lowStock = stockLevels.filter(level => level.onHand <= level.product.lowStockAt);
+
+  const saveProduct = async (product: Product) => {
+    if (!state.user) return;
+    const next = [...products.filter(p => p.id !== product.id), product].sort((a, b) => a.name.localeCompare(b.name));
+    setProducts(next);
+    setEditingProduct(null);
+    try {
+      await saveProducts(state.user.businessId, [product], next);
+    } catch (err: any) {
+      alert("Could not save on this device: " + err.message);
+    }
+  };
+
+  const inviteStaff = async (email: string, role: Role) => {
+    if (!state.user) return;
+    try {
+      const member = await inviteMember(state.user.businessId, email, role);
+      setMembers(prev => [...prev, member]);
+    } catch (err: any) {
+      alert("Could not send the invitation: " + err.message);
+    }
+  };
+
+  const changeMemberRole = async (member: Member, role: Role) => {
+    try {
+      await updateMemberRole(member.id, role);
+      setMembers(prev => prev.map(m => m.id === member.id ? { ...m, role } : m));
+    } catch (err: any) {
+      alert("Could not change the role: " + err.message);
+    }
+  };
+
+  const removeStaff = async (member: Member) => {
+    if (!confirm(`Remove ${member.email}? Entries they recorded stay in the ledger.`)) return;
+    try {
+      await removeMember(member.id);
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+    } catch (err: any) {
+      alert("Could not remove them: " + err.message);
+    }
+  };
+
+  // Only worth showing once there is more than one person recording.
+  const recorderName = (tx: Transaction) => {
+    const member = members.find(m => m.userId === tx.recordedBy);
+    return member && members.length > 1 ? member.email.split('@')[0] : undefined;
+  };
+
+  const due = useMemo(() => dueEntries(templates), [templates]);
+
+  const storeTemplates = (changed: RecurringTemplate[]) => {
+    if (!state.user) return;
+    const ids = new Set(changed.map(t => t.id));
+    const next = [...templates.filter(t => !ids.has(t.id)), ...changed].sort((a, b) => a.category.localeCompare(b.category));
+    setTemplates(next);
+    saveRecurringTemplates(state.user.businessId, changed, next).catch(err => console.error("Recurring templates save error:", err));
+  };
+
+  const saveTemplate = (template: RecurringTemplate) => {
+    const category = normalizeCategory(template.category, categories);
+    storeTemplates([{ ...template, category }]);
+    addCategories([{ type: template.type, category }]);
+    setEditingTemplate(null);
+  };
+
+  // Marks occurrences up to the latest one given as handled, per template.
+  const markHandled = (entries: DueEntry[]) => {
+    const latest = new Map<string, DueEntry>();
+    entries.forEach(e => {
+      const seen = latest.get(e.template.id);
+      if (!seen || e.dueDate > seen.dueDate) latest.set(e.template.id, e);
     });
-    return Object.entries(balances)
-      .filter(([_, bal]) => bal > 0)
-      .map(([name, bal]) => ({ name, balance: bal }));
-  }, [state.transactions]);
+    storeTemplates([...latest.values()].map(e => ({ ...e.template, handledThrough: e.dueDate })));
+  };
+
+  const approveDue = async (entries: DueEntry[]) => {
+    if (!state.user) return;
+    try {
+      const queued = await saveTransactions(state.user, entries.map(entryFor));
+      setState(prev => ({
+        ...prev,
+        transactions: [...queued, ...prev.transactions].sort((a, b) => b.date.localeCompare(a.date))
+      }));
+      markHandled(entries);
+      runSync(state.user);
+    } catch (err: any) {
+      alert("Could not save on this device: " + err.message);
+    }
+  };
+
+  const skipDue = (entry: DueEntry) => markHandled([entry]);
+
+  const storeCategories = (changed: Category[]) => {
+    if (!state.user || changed.length === 0) return;
+    const ids = new Set(changed.map(c => c.id));
+    const next = [...categories.filter(c => !ids.has(c.id)), ...changed].sort((a, b) => a.name.localeCompare(b.name));
+    setCategories(next);
+    saveCategories(state.user.businessId, changed, next).catch(err => console.error("Categories save error:", err));
+  };
+
+  // Names saved on entries join the managed list, so the next spelling of them is matched too.
+  const addCategories = (entries: Pick<Transaction, 'type' | 'category'>[]) => storeCategories(missingCategories(entries, categories));
+
+  // Re-files every entry and recurring template under `from` as `name`, on the server and here.
+  const moveEntries = async (from: Category, name: string): Promise<boolean> => {
+    if (!state.user) return false;
+    const user = state.user;
+    const spellings = categorySpellings(from, state.transactions);
+    try {
+      await recategorizeTransactions(user, spellings, name);
+    } catch (err: any) {
+      alert("Could not move the entries: " + err.message);
+      return false;
+    }
+    const isMoved = (category?: string) => spellings.includes((category || 'General').trim().toLowerCase());
+    setOlderHistory(prev => prev.map(t => isMoved(t.category) ? { ...t, category: name } : t));
+    storeTemplates(templates.filter(t => isMoved(t.category)).map(t => ({ ...t, category: name })));
+    reloadLedger(user);
+    return true;
+  };
+
+  // A rename moves the entries too and keeps the old name as another name for the category.
+  const saveCategory = async (category: Category) => {
+    const previous = categories.find(c => c.id === category.id);
+    const renamed = previous && previous.name !== category.name ? previous : undefined;
+    if (renamed && !(await moveEntries(renamed, category.name))) return;
+    storeCategories([renamed && categoryKey(renamed.name) !== categoryKey(category.name)
+      ? { ...category, aliases: [...new Set([...category.aliases, renamed.name])] }
+      : category]);
+    setEditingCategory(null);
+  };
+
+  const mergeCategory = async (source: Category, target: Category) => {
+    if (!state.user) return;
+    if (!confirm(`Move every ${source.name} entry to ${target.name} and remove ${source.name}?`)) return;
+    if (!(await moveEntries(source, target.name))) return;
+    const merged = mergeCategories(source, target);
+    const next = categories.filter(c => c.id !== source.id).map(c => c.id === target.id ? merged : c);
+    setCategories(next);
+    setEditingCategory(null);
+    try {
+      await deleteCategory(state.user.businessId, source.id, next);
+      await saveCategories(state.user.businessId, [merged], next);
+    } catch (err: any) {
+      alert("Could not remove the category: " + err.message);
+    }
+  };
+
+  const budgets = useMemo(() => budgetProgress(ledgerTransactions, categories), [ledgerTransactions, categories]);
+
+  const pendingBudgetAlerts = useMemo(
+    () => pendingConfirm
+      ? budgetAlerts(pendingConfirm, ledgerTransactions, categories, (amount, currency) => convert(amount, currency || baseCurrency, baseCurrency, exchangeRates))
+      : {},
+    [pendingConfirm, ledgerTransactions, categories, baseCurrency, exchangeRates]
+  );
+
+  const openBudget = (category: string) => {
+    const start = startOfMonth(new Date());
+    openHistory({ label: `${category} this month`, category, types: [TransactionType.EXPENSE], from: start.toISOString(), to: addMonths(start, 1).toISOString() });
+  };
+
+  const debtBalances = useMemo(() => computeDebtBalances(ledgerTransactions, 'receivable'), [ledgerTransactions]);
+  const payableBalances = useMemo(() => computeDebtBalances(ledgerTransactions, 'payable'), [ledgerTransactions]);
+
+  // Older credit sales are day totals in the ledger, which can't be billed one by one, so the
+  // account's own entries are fetched when it opens. Until then the statement shows the totals.
+  useEffect(() => {
+    setAccountEntries(null);
+    if (!selectedAccount || !state.user) return;
+    let cancelled = false;
+    loadEntries(state.user, { label: selectedAccount.key, counterparty: selectedAccount.key })
+      .then(entries => { if (!cancelled) setAccountEntries(toBaseCurrency(entries, baseCurrency, exchangeRates)); })
+      .catch(err => console.error("Fetch error:", err));
+    return () => { cancelled = true; };
+  }, [selectedAccount, baseCurrency, exchangeRates]);
+
+  const accountStatement = useMemo(() => {
+    if (!selectedAccount) return [];
+    // Entries on the device are the latest copies: they carry edits, voids and new payments.
+    const onDevice = new Set(state.transactions.map(t => t.id));
+    const source = accountEntries
+      ? [...accountEntries.filter(t => !onDevice.has(t.id)), ...ledgerTransactions.filter(t => !t.entryCount)]
+      : ledgerTransactions;
+    return getStatementLines(source, selectedAccount.key, selectedAccount.kind);
+  }, [selectedAccount, accountEntries, state.transactions, ledgerTransactions]);
+
+  const accountInvoices = useMemo(
+    () => selectedAccount?.kind === 'receivable'
+      ? invoices.filter(i => counterpartyKey(i.counterparty) === selectedAccount.key).map(i => summarizeInvoice(i, ledgerTransactions))
+      : [],
+    [selectedAccount, invoices, ledgerTransactions]
+  );
+  const accountReceipts = useMemo(
+    () => selectedAccount?.kind === 'receivable' ? paymentReceipts.filter(r => counterpartyKey(r.counterparty) === selectedAccount.key) : [],
+    [selectedAccount, paymentReceipts]
+  );
+
+  const createInvoice = async (name: string, transactions: Transaction[]) => {
+    if (!state.user) return;
+    const invoiced = invoicedTransactionIds(invoices);
+    const unbilled = transactions.filter(tx => !tx.entryCount && !invoiced.has(tx.id));
+    if (unbilled.length === 0) return;
+    try {
+      const invoice = newInvoice(name, unbilled, await allocateDocumentNumber(state.user.businessId, 'invoice'));
+      const next = [invoice, ...invoices];
+      setInvoices(next);
+      saveInvoices(state.user.businessId, [invoice], next).catch(err => console.error("Invoices save error:", err));
+      openInvoice(summarizeInvoice(invoice, ledgerTransactions));
+    } catch (err: any) {
+      alert("Could not number the invoice. Issuing one needs a connection: " + err.message);
+    }
+  };
+
+  const openInvoice = (summary: InvoiceSummary) => {
+    if (state.user) setViewingDocument(invoiceDocument(summary, state.user.businessName, baseCurrency));
+  };
+
+  const openPaymentReceipt = (receipt: PaymentReceipt) => {
+    if (state.user) setViewingDocument(receiptDocument(receipt, state.user.businessName, baseCurrency));
+  };
+
+  const documentLink = async (pdf: Blob, fileName: string) =>
+    state.user ? getDocumentLink(state.user.businessId, pdf, fileName) : null;
+
+  // Payments are recorded in the business currency, like the balance they come off.
+  const issueReceipt = async (name: string, amount: number, paidAt: string) => {
+    if (!state.user) return;
+    const owed = debtBalances.find(d => d.key === counterpartyKey(name))?.balance || 0;
+    try {
+      const receipt: PaymentReceipt = {
+        id: crypto.randomUUID(),
+        number: await allocateDocumentNumber(state.user.businessId, 'receipt'),
+        counterparty: name,
+        amount,
+        paidAt,
+        balanceAfter: Math.max(0, owed - amount),
+        issuedAt: new Date().toISOString()
+      };
+      const next = [receipt, ...paymentReceipts];
+      setPaymentReceipts(next);
+      savePaymentReceipts(state.user.businessId, [receipt], next).catch(err => console.error("Payment receipts save error:", err));
+      openPaymentReceipt(receipt);
+    } catch (err: any) {
+      alert("The payment is saved, but issuing a receipt needs a connection: " + err.message);
+    }
+  };
 
   const reportData = useMemo(() => {
-    if (!reportType) return null;
-    const startDate = new Date();
-    if (reportType === 'daily') startDate.setHours(0, 0, 0, 0);
-    else if (reportType === 'weekly') startDate.setDate(startDate.getDate() - 7);
-    else if (reportType === 'monthly') startDate.setDate(startDate.getDate() - 30);
-    
-    const filtered = state.transactions.filter(t => new Date(t.date) >= startDate);
-    const income = filtered.filter(t => t.type === TransactionType.INCOME || t.type === TransactionType.DEBT_PAYMENT).reduce((sum, t) => sum + t.amount, 0);
-    const expenses = filtered.filter(t => t.type === TransactionType.EXPENSE).reduce((sum, t) => sum + t.amount, 0);
-    return { net: income - expenses, totalIn: income, totalOut: expenses, transactions: filtered, period: reportType };
-  }, [reportType, state.transactions]);
+    if (!reportPeriod) return null;
+    const summarize = (range: DateRange) => {
+      const transactions = ledgerTransactions.filter(t => isInRange(t.date, range));
+      const totalIn = totalInflow(transactions);
+      const totalOut = totalOutflow(transactions);
+      return { net: totalIn - totalOut, totalIn, totalOut, transactions, range };
+    };
+
+    const range = resolvePeriod(reportPeriod, { weekStartsOn, ...customRange });
+    return {
+      ...summarize(range),
+      period: reportPeriod,
+      periodName: REPORT_PERIODS.find(p => p.value === reportPeriod)?.label || reportPeriod,
+      previous: summarize(previousPeriod(reportPeriod, range)),
+    };
+  }, [reportPeriod, customRange, weekStartsOn, ledgerTransactions]);
+
+  // Totals come from the ledger, day totals included; the log lists every entry of the period.
+  const reportStart = reportData?.range.start.toISOString();
+  const reportEnd = reportData?.range.end.toISOString();
+  useEffect(() => {
+    setReportEntries(null);
+    if (reportModal !== 'view' || !state.user || !reportData) return;
+    let cancelled = false;
+    loadEntries(state.user, { label: reportData.range.label, from: reportStart, to: reportEnd })
+      .then(entries => { if (!cancelled) setReportEntries(toBaseCurrency(entries, baseCurrency, exchangeRates)); })
+      .catch(err => {
+        console.error("Fetch error:", err);
+        if (!cancelled) alert("Could not load the entries of this period: " + err.message);
+      });
+    return () => { cancelled = true; };
+  }, [reportModal, reportStart, reportEnd, baseCurrency, exchangeRates]);
 
   if (state.isLoading) return (
     <div className="h-screen flex flex-col items-center justify-center font-black text-slate-900 bg-white gap-4">
@@ -265,6 +1148,15 @@ const App: React.FC = () => {
                 className="w-full px-6 py-4 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold focus:outline-none focus:ring-2 focus:ring-slate-900"
               />
             )}
+            {isSignUp && (
+              <select
+                value={currencyInput}
+                onChange={e => setCurrencyInput(e.target.value)}
+                className="w-full px-6 py-4 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold focus:outline-none focus:ring-2 focus:ring-slate-900"
+              >
+                {SUPPORTED_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            )}
             <input 
               required
               type="email"
@@ -309,23 +1201,41 @@ const App: React.FC = () => {
   }
 
   const todayStr = new Date().toDateString();
-  const todayTxs = state.transactions.filter(t => new Date(t.date).toDateString() === todayStr);
-  const incomeToday = todayTxs.filter(t => t.type === TransactionType.INCOME || t.type === TransactionType.DEBT_PAYMENT).reduce((sum, t) => sum + t.amount, 0);
-  const expenseToday = todayTxs.filter(t => t.type === TransactionType.EXPENSE).reduce((sum, t) => sum + t.amount, 0);
+  const todayTxs = ledgerTransactions.filter(t => new Date(t.date).toDateString() === todayStr);
+  const incomeToday = totalInflow(todayTxs);
+  const expenseToday = totalOutflow(todayTxs);
   const totalDebtBalance = debtBalances.reduce((sum, d) => sum + d.balance, 0);
+  const totalPayableBalance = payableBalances.reduce((sum, d) => sum + d.balance, 0);
+  const selectedAccountName = [...debtBalances, ...payableBalances].find(d => d.key === selectedAccount?.key && d.kind === selectedAccount?.kind)?.name
+    || accountStatement[accountStatement.length - 1]?.transaction.counterparty?.trim()
+    || selectedAccount?.key
+    || '';
+
+  const role = state.user.role;
+  const home = homeTab(role);
+  const navTab = (tab: AppTab, label: string, Icon: React.FC) => canOpen(role, tab) && (
+    <button onClick={() => tab === 'history' ? openHistory(null) : setActiveTab(tab)} className={`flex flex-col items-center justify-center gap-1 flex-1 h-full transition-colors ${activeTab === tab ? 'text-slate-900' : 'text-slate-300'}`}><Icon /><span className="text-[9px] font-black uppercase tracking-widest">{label}</span></button>
+  );
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col items-center w-full">
       <header className="w-full sticky top-0 bg-white/80 backdrop-blur-md border-b border-slate-100 z-40 safe-top">
         <div className="max-w-lg mx-auto px-6 h-20 flex justify-between items-center">
           <div className="flex items-center gap-4">
-            {activeTab !== 'dashboard' && (
-              <button onClick={() => setActiveTab('dashboard')} className="p-2 -ml-2 rounded-full text-slate-400 active:scale-75 transition-transform"><Icons.ChevronLeft /></button>
+            {activeTab !== home && (
+              <button onClick={() => setActiveTab(home)} className="p-2 -ml-2 rounded-full text-slate-400 active:scale-75 transition-transform"><Icons.ChevronLeft /></button>
             )}
             <div className="min-w-0">
               <div className="flex items-center gap-2">
                 <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest leading-none truncate">{state.user?.businessName || 'Business'}</p>
                 {isSyncing && <div className="w-1.5 h-1.5 bg-blue-500 rounded-full animate-pulse" />}
+                {isDemoMode() && <span className="bg-blue-50 text-blue-600 px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-widest leading-none">Demo</span>}
+                {(syncSummary.pending > 0 || syncSummary.failed > 0) && (
+                  <button onClick={() => state.user && runSync(state.user, true)} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest leading-none">
+                    {syncSummary.pending > 0 && <span className="bg-amber-50 text-amber-600 px-2 py-0.5 rounded-full">{syncSummary.pending} pending</span>}
+                    {syncSummary.failed > 0 && <span className="bg-rose-50 text-rose-600 px-2 py-0.5 rounded-full">{syncSummary.failed} failed</span>}
+                  </button>
+                )}
               </div>
               <h2 className="text-xl font-black text-slate-900 leading-none truncate capitalize">{activeTab}</h2>
             </div>
@@ -339,22 +1249,30 @@ const App: React.FC = () => {
       <main className="w-full max-w-lg px-6 py-8 pb-48 flex-1">
         {activeTab === 'dashboard' && (
           <div className="space-y-6 animate-fade-in">
+            {due.length > 0 && <DueEntries entries={due} onApprove={approveDue} onSkip={skipDue} />}
             <div className="grid grid-cols-2 gap-4">
-              <SummaryCard label="Inflow Today" amount={incomeToday} colorClass={COLORS.income} icon={<Icons.ArrowUp />} />
-              <SummaryCard label="Outflow Today" amount={expenseToday} colorClass={COLORS.expense} icon={<Icons.ArrowDown />} />
-              <SummaryCard label="Day's Profit" amount={incomeToday - expenseToday} colorClass={COLORS.profit} icon={<Icons.Dashboard />} />
-              <SummaryCard label="Credit Sales" amount={totalDebtBalance} colorClass={COLORS.debt} icon={<Icons.Users />} />
+              <SummaryCard label="Inflow Today" amount={incomeToday} currency={baseCurrency} colorClass={COLORS.income} icon={<Icons.ArrowUp />} />
+              <SummaryCard label="Outflow Today" amount={expenseToday} currency={baseCurrency} colorClass={COLORS.expense} icon={<Icons.ArrowDown />} />
+              <SummaryCard label="Credit Sales" amount={totalDebtBalance} currency={baseCurrency} colorClass={COLORS.debt} icon={<Icons.Users />} />
+              <SummaryCard label="We Owe" amount={totalPayableBalance} currency={baseCurrency} colorClass={COLORS.payable} icon={<Icons.Users />} />
+              <div className="col-span-2"><SummaryCard label="Day's Profit" amount={incomeToday - expenseToday} currency={baseCurrency} colorClass={COLORS.profit} icon={<Icons.Dashboard />} /></div>
             </div>
             
-            <button onClick={() => setReportModal('select')} className="w-full bg-slate-900 p-8 rounded-[2.5rem] shadow-2xl flex items-center justify-between text-white active:scale-[0.98] transition-all text-left">
-              <div><h3 className="font-black text-xl mb-1">Business Audit</h3><p className="text-[10px] text-slate-400 font-bold uppercase tracking-[0.2em]">Generate Insights</p></div>
-              <div className="bg-blue-600 p-4 rounded-2xl shadow-lg"><Icons.FileText /></div>
-            </button>
+            {budgets.length > 0 && <BudgetOverview progress={budgets} currency={baseCurrency} onDrillDown={openBudget} />}
+
+            <DashboardCharts transactions={ledgerTransactions} categories={categories} currency={baseCurrency} weekStartsOn={weekStartsOn} onDrillDown={openHistory} />
+
+            {can(role, 'report') && (
+              <button onClick={() => setReportModal('select')} className="w-full bg-slate-900 p-8 rounded-[2.5rem] shadow-2xl flex items-center justify-between text-white active:scale-[0.98] transition-all text-left">
+                <div><h3 className="font-black text-xl mb-1">Business Audit</h3><p className="text-[10px] text-slate-400 font-bold uppercase tracking-[0.2em]">Generate Insights</p></div>
+                <div className="bg-blue-600 p-4 rounded-2xl shadow-lg"><Icons.FileText /></div>
+              </button>
+            )}
 
             <div className="space-y-4 pt-4">
-              <div className="flex justify-between items-center"><h3 className="text-lg font-black text-slate-900 tracking-tight">Latest Entries</h3><button onClick={() => setActiveTab('history')} className="text-xs font-black text-blue-600 uppercase tracking-widest">View All</button></div>
+              <div className="flex justify-between items-center"><h3 className="text-lg font-black text-slate-900 tracking-tight">Latest Entries</h3><button onClick={() => openHistory(null)} className="text-xs font-black text-blue-600 uppercase tracking-widest">View All</button></div>
               <div className="space-y-2">
-                {state.transactions.length === 0 ? <div className="py-20 text-center text-slate-300 font-bold italic bg-white rounded-[2rem] border-2 border-dashed border-slate-100">Ledger is empty</div> : state.transactions.slice(0, 5).map(tx => <TransactionCard key={tx.id} transaction={tx} />)}
+                {recentEntries.length === 0 ? <div className="py-20 text-center text-slate-300 font-bold italic bg-white rounded-[2rem] border-2 border-dashed border-slate-100">{activeTransactions.length === 0 ? 'Ledger is empty' : 'Nothing recorded in the last two weeks'}</div> : recentEntries.slice(0, 5).map(tx => <TransactionCard key={tx.id} transaction={tx} recordedBy={recorderName(tx)} onEdit={setEditingTx} />)}
               </div>
             </div>
           </div>
@@ -363,33 +1281,186 @@ const App: React.FC = () => {
         {activeTab === 'history' && (
           <div className="space-y-4 animate-fade-in">
             <h3 className="text-lg font-black text-slate-900">Historical Records</h3>
-            {state.transactions.length === 0 ? <div className="py-32 text-center text-slate-300 font-bold italic">No data synced yet.</div> : state.transactions.map(tx => <TransactionCard key={tx.id} transaction={tx} />)}
+            {role !== 'attendant' && members.length > 1 && (
+              <select
+                value={historyFilter?.recordedBy || ''}
+                onChange={e => {
+                  const member = members.find(m => m.userId === e.target.value);
+                  setHistoryFilter(member ? { label: `Recorded by ${member.email}`, recordedBy: member.userId } : null);
+                }}
+                className="w-full px-5 py-3 rounded-2xl border border-slate-100 bg-white text-slate-900 font-bold text-sm focus:outline-none"
+              >
+                <option value="">Everyone</option>
+                {members.filter(m => m.userId).map(m => <option key={m.id} value={m.userId}>{m.email}</option>)}
+              </select>
+            )}
+            {historyFilter && (
+              <div className="flex items-center justify-between gap-4 bg-blue-50 text-blue-600 px-5 py-3 rounded-2xl">
+                <span className="text-xs font-black truncate capitalize">{historyFilter.label} · {historyTransactions.length}</span>
+                <button onClick={() => setHistoryFilter(null)} className="text-[10px] font-black uppercase tracking-widest flex-shrink-0">Clear</button>
+              </div>
+            )}
+            {historyTransactions.length === 0 && historyDone ? <div className="py-32 text-center text-slate-300 font-bold italic">{historyFilter ? 'No entries match this filter.' : 'No data synced yet.'}</div> : historyTransactions.map(tx => <TransactionCard key={tx.id} transaction={tx} recordedBy={recorderName(tx)} onEdit={can(role, 'edit') || tx.syncStatus === 'failed' ? setEditingTx : undefined} onVoid={can(role, 'void') ? voidEntry : undefined} onViewReceipt={openReceipt} />)}
+            <div ref={historyEndRef} />
+            {loadingHistory && <div className="flex justify-center py-6"><div className="w-6 h-6 border-2 border-slate-900 border-t-transparent rounded-full animate-spin" /></div>}
           </div>
         )}
 
-        {activeTab === 'debts' && (
+        {activeTab === 'record' && (
           <div className="space-y-4 animate-fade-in">
-            <h3 className="text-lg font-black text-slate-900">Credit Tracking</h3>
-            {debtBalances.length === 0 ? <div className="py-32 text-center text-slate-300 font-bold italic">No outstanding balances.</div> : debtBalances.map(({ name, balance }) => (
-              <div key={name} className="bg-white p-6 rounded-[2rem] border border-slate-100 flex items-center justify-between shadow-sm">
-                <div className="min-w-0"><h4 className="font-black text-slate-900 text-lg mb-1">{name}</h4><p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Awaiting Payment</p></div>
-                <div className="text-right flex flex-col items-end flex-shrink-0 ml-4">
-                  <span className="font-black text-amber-600 text-xl mb-2">{new Intl.NumberFormat().format(balance)}</span>
-                  <button onClick={() => settleDebt(name, balance)} className="text-[10px] uppercase font-black bg-slate-900 text-white px-5 py-2.5 rounded-xl active:scale-90 transition-transform shadow-md">Mark Paid</button>
+            {conversation.length === 0 ? <div className="py-32 text-center text-slate-300 font-bold italic">Record a sale or ask about your business.</div> : conversation.map((reply, i) => (
+              <div key={i} className="space-y-2">
+                <div className="flex justify-end"><p className="bg-slate-900 text-white font-bold px-5 py-3 rounded-[1.5rem] rounded-br-md max-w-[80%]">{reply.question}</p></div>
+                <div className="flex justify-start">
+                  <div className="bg-white border border-slate-100 shadow-sm px-5 py-3 rounded-[1.5rem] rounded-bl-md max-w-[80%]">
+                    <p className="font-bold text-slate-900">{reply.answer}</p>
+                  </div>
                 </div>
               </div>
             ))}
           </div>
         )}
 
+        {activeTab === 'debts' && !selectedAccount && (
+          <div className="space-y-8 animate-fade-in">
+            {[
+              { kind: 'receivable' as DebtKind, title: 'They Owe Us', status: 'Awaiting Payment', color: COLORS.debt, balances: debtBalances },
+              { kind: 'payable' as DebtKind, title: 'We Owe', status: 'Payable', color: COLORS.payable, balances: payableBalances },
+            ].map(section => (
+              <div key={section.kind} className="space-y-4">
+                <h3 className="text-lg font-black text-slate-900">{section.title}</h3>
+                {section.balances.length === 0 ? <div className="py-12 text-center text-slate-300 font-bold italic">No outstanding balances.</div> : section.balances.map(({ key, kind, name, balance }) => (
+                  <div key={key} onClick={() => setSelectedAccount({ key, kind })} className="bg-white p-6 rounded-[2rem] border border-slate-100 flex items-center justify-between shadow-sm cursor-pointer active:bg-slate-50">
+                    <div className="min-w-0"><h4 className="font-black text-slate-900 text-lg mb-1">{name}</h4><p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{section.status}</p></div>
+                    <div className="text-right flex flex-col items-end flex-shrink-0 ml-4">
+                      <span className={`font-black text-xl mb-2 ${section.color}`}>{formatMoney(balance)}</span>
+                      <button onClick={e => { e.stopPropagation(); settleDebt(name, balance, kind); }} className="text-[10px] uppercase font-black bg-slate-900 text-white px-5 py-2.5 rounded-xl active:scale-90 transition-transform shadow-md">Mark Paid</button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {activeTab === 'inventory' && (
+          <div className="space-y-8 animate-fade-in">
+            {lowStock.length > 0 && (
+              <div className="bg-rose-50 rounded-[2rem] p-6 space-y-2">
+                <p className="text-[10px] font-black text-rose-600 uppercase tracking-widest">Low Stock</p>
+                {lowStock.map(({ product, onHand }) => (
+                  <p key={product.id} className="font-bold text-rose-700 flex justify-between gap-4">
+                    <span className="truncate">{product.name}</span>
+                    <span className="whitespace-nowrap">{onHand} {product.unit} left</span>
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h3 className="text-lg font-black text-slate-900">Stock Levels</h3>
+                {can(role, 'manageStock') && <button onClick={() => setEditingProduct('new')} className="text-xs font-black text-blue-600 uppercase tracking-widest">Add Product</button>}
+              </div>
+              {stockLevels.length === 0 ? <div className="py-20 text-center text-slate-300 font-bold italic bg-white rounded-[2rem] border-2 border-dashed border-slate-100">Record a sale or purchase with quantities, e.g. "Sold 5 bags of sugar at 4000".</div> : stockLevels.map(level => {
+                const { product, onHand, sold, revenue, margin } = level;
+                return (
+                  <div key={product.id} onClick={can(role, 'manageStock') ? () => setEditingProduct(level) : undefined} className={`bg-white p-6 rounded-[2rem] border border-slate-100 shadow-sm space-y-3 ${can(role, 'manageStock') ? 'cursor-pointer active:bg-slate-50' : ''}`}>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <h4 className="font-black text-slate-900 text-lg truncate">{product.name}</h4>
+                        <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Cost {formatMoney(product.costPrice)} • Sells {formatMoney(product.salePrice)}</p>
+                      </div>
+                      <div className="text-right flex-shrink-0">
+                        <p className={`font-black text-xl ${onHand <= product.lowStockAt ? 'text-rose-600' : 'text-slate-900'}`}>{onHand}</p>
+                        <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{product.unit}</p>
+                      </div>
+                    </div>
+                    {sold > 0 && (
+                      <div className="flex justify-between text-xs font-bold text-slate-500 border-t border-slate-50 pt-3">
+                        <span>{sold} sold</span>
+                        <span className={margin >= 0 ? COLORS.income : COLORS.expense}>
+                          Margin {formatMoney(margin)}{revenue > 0 ? ` (${((margin / revenue) * 100).toFixed(0)}%)` : ''}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'debts' && selectedAccount && (
+          <div className="space-y-4">
+            <button onClick={() => setSelectedAccount(null)} className="text-xs font-black text-blue-600 uppercase tracking-widest">All Accounts</button>
+            <CounterpartyLedger
+              name={selectedAccountName}
+              lines={accountStatement}
+              currency={baseCurrency}
+              businessName={state.user?.businessName || 'Business'}
+              kind={selectedAccount.kind}
+              invoices={accountInvoices}
+              receipts={accountReceipts}
+              onRecordPayment={can(role, 'settle') ? (amount, date) => settleDebt(selectedAccountName, amount, selectedAccount.kind, date) : undefined}
+              onCreateInvoice={transactions => createInvoice(selectedAccountName, transactions)}
+              onOpenInvoice={openInvoice}
+              onOpenReceipt={openPaymentReceipt}
+            />
+          </div>
+        )}
+
         {activeTab === 'settings' && (
            <div className="space-y-8 animate-fade-in">
               <h3 className="text-lg font-black text-slate-900">Account Control</h3>
               <div className="bg-white rounded-[2.5rem] border border-slate-100 divide-y divide-slate-50 overflow-hidden shadow-sm">
-                <div className="px-8 py-6 flex justify-between items-center"><span className="font-bold text-slate-600">Currency</span><span className="text-slate-900 font-black tracking-tight">{state.user?.currency}</span></div>
+                <div className="px-8 py-6 flex justify-between items-center">
+                  <span className="font-bold text-slate-600">Week Starts On</span>
+                  <select value={weekStartsOn} onChange={e => changeWeekStart(Number(e.target.value))} className="text-slate-900 font-black tracking-tight bg-transparent focus:outline-none text-right">
+                    {WEEK_START_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                  </select>
+                </div>
                 <div className="px-8 py-6 flex flex-col"><span className="text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1">User Email</span><span className="font-bold text-slate-900 truncate">{state.user?.email}</span></div>
                 <button onClick={logoutUser} className="w-full px-8 py-6 text-left hover:bg-rose-50 text-rose-600 font-black active:bg-rose-100 transition-colors">Log Out</button>
               </div>
+              {can(role, 'manageTeam') && (
+                <TeamSettings members={members} currentUserId={state.user.id} onInvite={inviteStaff} onChangeRole={changeMemberRole} onRemove={removeStaff} />
+              )}
+              {(can(role, 'export') || can(role, 'import')) && <div className="bg-white rounded-[2.5rem] border border-slate-100 divide-y divide-slate-50 overflow-hidden shadow-sm">
+                {can(role, 'export') && (
+                  <div className="px-8 py-6 flex justify-between items-center gap-4">
+                    <span className="font-bold text-slate-600">Export Ledger</span>
+                    <div className="flex gap-2">
+                      <button onClick={() => exportStored(null, 'csv', 'ledger')} className="text-[10px] uppercase font-black bg-slate-100 text-slate-900 px-4 py-2.5 rounded-xl active:scale-90 transition-transform">CSV</button>
+                      <button onClick={() => exportStored(null, 'xlsx', 'ledger')} className="text-[10px] uppercase font-black bg-slate-100 text-slate-900 px-4 py-2.5 rounded-xl active:scale-90 transition-transform">Excel</button>
+                    </div>
+                  </div>
+                )}
+                {can(role, 'import') && (
+                  <>
+                    <button onClick={() => importInputRef.current?.click()} className="w-full px-8 py-6 text-left font-bold text-slate-600 active:bg-slate-50 transition-colors">Import from Spreadsheet</button>
+                    <input ref={importInputRef} type="file" accept=".csv,.xlsx,.xls" onChange={handleImportFile} className="hidden" />
+                  </>
+                )}
+              </div>}
+              {can(role, 'manageSettings') && <CurrencySettings baseCurrency={baseCurrency} rates={exchangeRates} onChangeBase={changeBaseCurrency} onChangeRates={changeExchangeRates} />}
+              {can(role, 'manageSettings') && <CategorySettings categories={categories} currency={baseCurrency} onAdd={() => setEditingCategory(newCategory(''))} onEdit={setEditingCategory} />}
+              {can(role, 'manageSettings') && (
+                <div className="bg-white rounded-[2.5rem] border border-slate-100 divide-y divide-slate-50 overflow-hidden shadow-sm">
+                  <div className="px-8 py-6 flex justify-between items-center">
+                    <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Recurring Entries</span>
+                    <button onClick={() => setEditingTemplate(newTemplate(baseCurrency))} className="text-xs font-black text-blue-600 uppercase tracking-widest">Add</button>
+                  </div>
+                  {templates.length === 0 ? <p className="px-8 py-6 text-sm text-slate-300 font-bold italic">Say "pay rent 300k every month" to set one up.</p> : templates.map(template => (
+                    <button key={template.id} onClick={() => setEditingTemplate(template)} className={`w-full px-8 py-5 flex items-center justify-between gap-4 text-left active:bg-slate-50 ${template.active ? '' : 'opacity-50'}`}>
+                      <div className="min-w-0">
+                        <p className="font-bold text-slate-900 truncate capitalize">{template.counterparty || template.category}</p>
+                        <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{template.active ? describeSchedule(template.schedule) : 'Stopped'}</p>
+                      </div>
+                      <span className="font-black text-slate-900 whitespace-nowrap">{formatMoney(template.amount, template.currency)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="text-center p-6 bg-slate-900 rounded-[2.5rem] text-white">
                 <p className="text-[11px] font-bold uppercase tracking-widest mb-2">Security: Supabase Protected</p>
                 <p className="text-xs text-slate-400 leading-relaxed">Your business data is encrypted and synced across all your devices using enterprise-grade cloud security.</p>
@@ -400,11 +1471,12 @@ const App: React.FC = () => {
 
       <nav className="fixed bottom-0 left-0 right-0 bg-white/90 backdrop-blur-xl border-t border-slate-100 z-50 safe-bottom">
         <div className="max-w-lg mx-auto flex justify-around items-end h-16 px-2">
-          <button onClick={() => setActiveTab('dashboard')} className={`flex flex-col items-center justify-center gap-1 flex-1 h-full transition-colors ${activeTab === 'dashboard' ? 'text-slate-900' : 'text-slate-300'}`}><Icons.Dashboard /><span className="text-[9px] font-black uppercase tracking-widest">Home</span></button>
-          <button onClick={() => setActiveTab('history')} className={`flex flex-col items-center justify-center gap-1 flex-1 h-full transition-colors ${activeTab === 'history' ? 'text-slate-900' : 'text-slate-300'}`}><Icons.History /><span className="text-[9px] font-black uppercase tracking-widest">Logs</span></button>
+          {navTab('dashboard', 'Home', Icons.Dashboard)}
+          {navTab('history', 'Logs', Icons.History)}
           <button onClick={() => setActiveTab('record')} className={`flex flex-col items-center justify-center gap-1 flex-1 relative -top-3 transition-transform active:scale-90`}><div className={`p-4 rounded-[1.8rem] shadow-2xl ${activeTab === 'record' ? 'bg-blue-600 text-white' : 'bg-slate-900 text-white'}`}><Icons.Plus /></div></button>
-          <button onClick={() => setActiveTab('debts')} className={`flex flex-col items-center justify-center gap-1 flex-1 h-full transition-colors ${activeTab === 'debts' ? 'text-slate-900' : 'text-slate-300'}`}><Icons.Users /><span className="text-[9px] font-black uppercase tracking-widest">Credit</span></button>
-          <button onClick={() => setActiveTab('settings')} className={`flex flex-col items-center justify-center gap-1 flex-1 h-full transition-colors ${activeTab === 'settings' ? 'text-slate-900' : 'text-slate-300'}`}><Icons.Settings /><span className="text-[9px] font-black uppercase tracking-widest">Profile</span></button>
+          {navTab('debts', 'Credit', Icons.Users)}
+          {navTab('inventory', 'Stock', Icons.Package)}
+          {navTab('settings', 'Profile', Icons.Settings)}
         </div>
       </nav>
 
@@ -414,19 +1486,27 @@ const App: React.FC = () => {
             {parsing && !pendingConfirm ? (
               <div className="flex-1 flex items-center justify-center gap-3 py-4 text-slate-400"><div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" /><span className="text-sm font-black uppercase tracking-widest">AI Syncing...</span></div>
             ) : pendingConfirm ? (
-              <div className="flex-1 flex flex-col gap-4 p-6">
-                <div className="flex justify-between items-center"><span className="text-[10px] font-black bg-blue-100 text-blue-700 px-3 py-1.2 rounded-full uppercase tracking-widest">Confirm Logic</span><button onClick={() => setPendingConfirm(null)} className="text-slate-300">✕</button></div>
-                <div className="flex items-center justify-between"><div><p className="text-[10px] text-slate-300 uppercase font-black tracking-widest mb-1">{pendingConfirm.type}</p><p className="text-2xl font-black text-slate-900">{pendingConfirm.counterparty || pendingConfirm.category}</p></div><div className="text-right"><p className="text-3xl font-black text-slate-900">{state.user?.currency} {new Intl.NumberFormat().format(pendingConfirm.amount || 0)}</p></div></div>
-                <button onClick={confirmTransaction} disabled={isSyncing} className="w-full bg-slate-900 text-white font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50">Sync Record</button>
-              </div>
+              <EntryReview
+                entries={pendingConfirm}
+                currency={baseCurrency}
+                categories={categories.map(c => c.name)}
+                budgetAlerts={pendingBudgetAlerts}
+                receiptPreview={receiptPreview}
+                onChange={setPendingConfirm}
+                onSave={confirmTransactions}
+                onCancel={clearPending}
+              />
             ) : (
               <>
+                <button onClick={() => receiptInputRef.current?.click()} className="p-4 rounded-2xl text-slate-400 active:scale-75 transition-all"><Icons.Camera /></button>
+                <button onClick={toggleVoice} aria-label={listening ? 'Stop recording' : 'Speak an entry'} className={`p-4 rounded-2xl active:scale-75 transition-all ${listening ? 'bg-rose-50 text-rose-600 animate-pulse' : 'text-slate-400'}`}><Icons.Mic /></button>
+                <input ref={receiptInputRef} type="file" accept="image/*" capture="environment" onChange={handleReceiptCapture} className="hidden" />
                 <input 
                   autoFocus
                   value={inputText}
                   onChange={e => setInputText(e.target.value)}
                   onKeyDown={e => e.key === 'Enter' && handleAction()}
-                  placeholder="Record sale or expense..."
+                  placeholder={listening ? "Listening... tap the mic when done" : "Record sale or expense..."}
                   className="flex-1 px-6 py-4 focus:outline-none text-slate-900 font-bold text-[16px] bg-transparent"
                 />
                 <button onClick={() => handleAction()} disabled={parsing || !inputText} className={`p-5 rounded-2xl transition-all ${parsing || !inputText ? 'bg-slate-50 text-slate-200' : 'bg-slate-900 text-white shadow-xl active:scale-75'}`}><Icons.Send /></button>
@@ -436,17 +1516,92 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {editingProduct && (
+        <ProductEditor
+          level={editingProduct === 'new' ? undefined : editingProduct}
+          currency={baseCurrency}
+          onSave={saveProduct}
+          onClose={() => setEditingProduct(null)}
+        />
+      )}
+
+      {editingTemplate && (
+        <RecurringEditor
+          template={editingTemplate}
+          isNew={!templates.some(t => t.id === editingTemplate.id)}
+          onSave={saveTemplate}
+          onClose={() => setEditingTemplate(null)}
+        />
+      )}
+
+      {viewingDocument && (
+        <DocumentViewer
+          document={viewingDocument}
+          getLink={documentLink}
+          onClose={() => setViewingDocument(null)}
+        />
+      )}
+
+      {editingCategory && (
+        <CategoryEditor
+          category={editingCategory}
+          categories={categories}
+          currency={baseCurrency}
+          isNew={!categories.some(c => c.id === editingCategory.id)}
+          onSave={saveCategory}
+          onMerge={mergeCategory}
+          onClose={() => setEditingCategory(null)}
+        />
+      )}
+
+      {editingTx && (
+        <TransactionEditor
+          transaction={editingTx}
+          currency={baseCurrency}
+          onSave={saveEdit}
+          onVoid={() => voidEntry(editingTx)}
+          onDiscard={() => discardEntry(editingTx)}
+          onClose={() => setEditingTx(null)}
+        />
+      )}
+
+      {importData && (
+        <ImportPreview
+          fileName={importData.fileName}
+          data={importData.data}
+          baseCurrency={baseCurrency}
+          existing={importData.existing}
+          onImport={importTransactions}
+          onClose={() => setImportData(null)}
+        />
+      )}
+
+      {receiptViewer && (
+        <div onClick={closeReceipt} className="fixed inset-0 z-[130] bg-black/80 backdrop-blur-md flex flex-col items-center justify-center p-6 gap-6">
+          <img src={receiptViewer} alt="Original receipt" className="max-w-full max-h-[75vh] rounded-2xl shadow-2xl" />
+          <button onClick={closeReceipt} className="bg-white text-slate-900 font-black px-8 py-4 rounded-2xl shadow-xl active:scale-95 transition-transform">Close</button>
+        </div>
+      )}
+
       {reportModal === 'select' && (
         <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-md flex items-end justify-center px-4 pb-8">
           <div className="bg-white w-full max-w-lg rounded-[3rem] p-10 space-y-8 animate-in slide-in-from-bottom duration-500 shadow-2xl">
             <div className="flex justify-between items-center"><h3 className="text-2xl font-black text-slate-900 tracking-tight">Audit Period</h3><button onClick={() => setReportModal(null)} className="text-slate-300 p-2">✕</button></div>
-            <div className="grid grid-cols-1 gap-4">
-              {['daily', 'weekly', 'monthly'].map((type) => (
-                <button key={type} onClick={() => { setReportType(type as any); setReportModal('view'); }} className="w-full p-8 rounded-[2rem] border border-slate-50 bg-slate-50 text-left flex justify-between items-center active:bg-blue-600 active:text-white transition-all group">
-                  <span className="font-black text-slate-900 text-lg capitalize group-active:text-white">{type} Audit</span><Icons.ArrowUp />
+            <div className="grid grid-cols-2 gap-3">
+              {REPORT_PERIODS.filter(p => p.value !== 'custom').map(p => (
+                <button key={p.value} onClick={() => openReport(p.value)} className="w-full p-5 rounded-[1.5rem] border border-slate-50 bg-slate-50 text-left active:bg-blue-600 transition-all group">
+                  <span className="font-black text-slate-900 group-active:text-white">{p.label}</span>
                 </button>
               ))}
             </div>
+            <div className="space-y-3">
+              <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Custom Range</p>
+              <div className="grid grid-cols-2 gap-3">
+                <input type="date" value={customRange.from} onChange={e => setCustomRange(prev => ({ ...prev, from: e.target.value }))} className="w-full px-4 py-4 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold focus:outline-none focus:ring-2 focus:ring-slate-900" />
+                <input type="date" value={customRange.to} onChange={e => setCustomRange(prev => ({ ...prev, to: e.target.value }))} className="w-full px-4 py-4 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold focus:outline-none focus:ring-2 focus:ring-slate-900" />
+              </div>
+              <button onClick={() => openReport('custom')} disabled={!customRange.from || !customRange.to} className="w-full bg-slate-900 text-white font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-30">View Range</button>
+            </div>
           </div>
         </div>
       )}
@@ -456,7 +1611,10 @@ const App: React.FC = () => {
           <header className="w-full bg-white border-b sticky top-0 z-10 safe-top">
             <div className="max-w-lg mx-auto w-full px-6 h-20 flex justify-between items-center">
               <button onClick={() => setReportModal('select')} className="p-2 text-slate-400"><Icons.ChevronLeft /></button>
-              <h3 className="text-lg font-black text-slate-900 uppercase tracking-tighter">{reportData.period} Cloud Audit</h3>
+              <div className="text-center min-w-0">
+                <h3 className="text-lg font-black text-slate-900 uppercase tracking-tighter leading-none">{reportData.periodName} Audit</h3>
+                <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest mt-1">{reportData.range.label}</p>
+              </div>
               <button onClick={() => setReportModal(null)} className="p-2 text-slate-400">✕</button>
             </div>
           </header>
@@ -464,20 +1622,33 @@ const App: React.FC = () => {
              <div className="bg-slate-900 text-white p-10 rounded-[3rem] shadow-2xl relative overflow-hidden">
                 <div className="absolute top-0 right-0 w-32 h-32 bg-blue-500/10 rounded-full -mr-10 -mt-10" />
                 <p className="text-slate-400 text-xs font-black uppercase tracking-widest mb-2">Net Cash Position</p>
-                <h4 className={`text-5xl font-black ${reportData.net >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{state.user?.currency} {new Intl.NumberFormat().format(reportData.net)}</h4>
+                <h4 className={`text-5xl font-black ${reportData.net >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatMoney(reportData.net, baseCurrency)}</h4>
                 <div className="grid grid-cols-2 gap-8 border-t border-slate-800 pt-8 mt-10">
-                   <div><p className="text-slate-500 text-[10px] font-black uppercase mb-1">Total Inflow</p><p className="text-emerald-400 font-black text-xl">{new Intl.NumberFormat().format(reportData.totalIn)}</p></div>
-                   <div><p className="text-slate-500 text-[10px] font-black uppercase mb-1">Total Outflow</p><p className="text-rose-400 font-black text-xl">{new Intl.NumberFormat().format(reportData.totalOut)}</p></div>
+                   <div><p className="text-slate-500 text-[10px] font-black uppercase mb-1">Total Inflow</p><p className="text-emerald-400 font-black text-xl">{formatMoney(reportData.totalIn, baseCurrency)}</p></div>
+                   <div><p className="text-slate-500 text-[10px] font-black uppercase mb-1">Total Outflow</p><p className="text-rose-400 font-black text-xl">{formatMoney(reportData.totalOut, baseCurrency)}</p></div>
                 </div>
              </div>
+             <PeriodComparison current={reportData} previous={reportData.previous} previousLabel={reportData.previous.range.label} currency={baseCurrency} />
              <div className="space-y-6">
-               <h5 className="font-black text-slate-900 flex items-center gap-2 px-2">Log Detail</h5>
+               <div className="flex justify-between items-center px-2">
+                 <h5 className="font-black text-slate-900 flex items-center gap-2">Log Detail</h5>
+                 <div className="flex gap-2">
+                   <button onClick={() => exportReport('csv')} className="text-[10px] uppercase font-black bg-white border border-slate-100 text-slate-900 px-4 py-2 rounded-xl active:scale-90 transition-transform">CSV</button>
+                   <button onClick={() => exportReport('xlsx')} className="text-[10px] uppercase font-black bg-white border border-slate-100 text-slate-900 px-4 py-2 rounded-xl active:scale-90 transition-transform">Excel</button>
+                 </div>
+               </div>
                <div className="space-y-2 pb-12">
-                 {reportData.transactions.length > 0 ? reportData.transactions.map(tx => <TransactionCard key={tx.id} transaction={tx} />) : <div className="p-12 text-center text-slate-400 font-bold italic">No records for this period.</div>}
+                 {!reportEntries ? <div className="flex justify-center py-12"><div className="w-6 h-6 border-2 border-slate-900 border-t-transparent rounded-full animate-spin" /></div> : reportEntries.length > 0 ? reportEntries.map(tx => <TransactionCard key={tx.id} transaction={tx} />) : <div className="p-12 text-center text-slate-400 font-bold italic">No records for this period.</div>}
                </div>
               </div>
           </div>
-          <div className="p-6 bg-white border-t safe-bottom w-full flex justify-center"><button onClick={() => setReportModal(null)} className="w-full max-w-lg bg-slate-900 text-white py-5 rounded-[2rem] font-black shadow-xl active:scale-95 transition-transform">Done</button></div>
+          <div className="p-6 bg-white border-t safe-bottom w-full flex justify-center">
+            <div className="w-full max-w-lg grid grid-cols-3 gap-3">
+              <button onClick={downloadReport} disabled={!reportEntries} className="w-full bg-slate-100 text-slate-900 py-5 rounded-[2rem] font-black active:scale-95 transition-transform disabled:opacity-30">PDF</button>
+              <button onClick={shareReport} disabled={!reportEntries} className="w-full bg-blue-600 text-white py-5 rounded-[2rem] font-black shadow-xl active:scale-95 transition-transform disabled:opacity-30">Share</button>
+              <button onClick={() => setReportModal(null)} className="w-full bg-slate-900 text-white py-5 rounded-[2rem] font-black shadow-xl active:scale-95 transition-transform">Done</button>
+            </div>
+          </div>
         </div>
       )}
     </div>
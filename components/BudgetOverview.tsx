@@ -0,0 +1,36 @@
+import React from 'react';
+import { BudgetProgress } from '../types';
+import { formatMoney } from '../utils/currency';
+
+interface BudgetOverviewProps {
+  progress: BudgetProgress[];
+  currency: string;
+  onDrillDown: (category: string) => void;
+}
+
+export const BudgetOverview: React.FC<BudgetOverviewProps> = ({ progress, currency, onDrillDown }) => (
+  <div className="bg-white rounded-[2.5rem] border border-slate-100 p-6 space-y-4 shadow-sm">
+    <div>
+      <h3 className="text-lg font-black text-slate-900 tracking-tight">Budgets</h3>
+      <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">This month</p>
+    </div>
+    {progress.map(({ category, spent }) => {
+      const budget = category.monthlyBudget!;
+      const share = spent / budget;
+      const barClass = share > 1 ? 'bg-rose-500' : share >= 0.8 ? 'bg-amber-500' : 'bg-emerald-500';
+      return (
+        <button key={category.id} onClick={() => onDrillDown(category.name)} className="w-full text-left space-y-1.5">
+          <div className="flex justify-between items-baseline gap-3">
+            <span className="font-bold text-slate-900 truncate">{category.icon} {category.name}</span>
+            <span className={`text-xs font-black whitespace-nowrap ${share > 1 ? 'text-rose-600' : 'text-slate-400'}`}>
+              {formatMoney(spent, currency)} / {formatMoney(budget, currency)}
+            </span>
+          </div>
+          <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+            <div className={`h-full rounded-full ${barClass}`} style={{ width: `${Math.min(share, 1) * 100}%` }} />
+          </div>
+        </button>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Category, CategoryKind } from '../types';
+import { findCategory } from '../utils/categories';
+
+interface CategoryEditorProps {
+  category: Category;
+  categories: Category[];
+  currency: string;
+  isNew: boolean;
+  onSave: (category: Category) => void;
+  onMerge: (source: Category, target: Category) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full px-5 py-4 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold focus:outline-none focus:ring-2 focus:ring-slate-900";
+const labelClass = "text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block";
+
+export const CategoryEditor: React.FC<CategoryEditorProps> = ({ category, categories, currency, isNew, onSave, onMerge, onClose }) => {
+  const [name, setName] = useState(category.name);
+  const [kind, setKind] = useState<CategoryKind>(category.kind);
+  const [icon, setIcon] = useState(category.icon);
+  const [color, setColor] = useState(category.color);
+  const [budget, setBudget] = useState(category.monthlyBudget ? String(category.monthlyBudget) : '');
+  const [aliases, setAliases] = useState(category.aliases.join(', '));
+  const [mergeInto, setMergeInto] = useState('');
+
+  const others = categories.filter(c => c.id !== category.id);
+  const clash = name.trim() ? findCategory(name, others) : undefined;
+  const budgetValue = Number(budget);
+  const isValid = name.trim() !== '' && !clash && Number.isFinite(budgetValue) && budgetValue >= 0;
+  const target = others.find(c => c.id === mergeInto);
+
+  const save = () => onSave({
+    ...category,
+    name: name.trim().replace(/\s+/g, ' '),
+    kind,
+    icon: icon.trim() || category.icon,
+    color,
+    aliases: aliases.split(',').map(alias => alias.trim()).filter(Boolean),
+    monthlyBudget: kind === 'expense' && budgetValue > 0 ? budgetValue : undefined,
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-md flex items-end justify-center px-4 pb-8">
+      <div className="bg-white w-full max-w-lg rounded-[3rem] p-8 space-y-6 animate-in slide-in-from-bottom duration-500 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-3 min-w-0">
+            <span className="w-12 h-12 rounded-2xl flex items-center justify-center text-2xl flex-shrink-0" style={{ backgroundColor: `${color}22` }}>{icon}</span>
+            <div className="min-w-0">
+              <h3 className="text-2xl font-black text-slate-900 tracking-tight truncate">{isNew ? 'New Category' : category.name}</h3>
+              <p className="text-[10px] font-black uppercase tracking-widest" style={{ color }}>{kind}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-300 p-2">✕</button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Name</label>
+            <input value={name} onChange={e => setName(e.target.value)} className={fieldClass} />
+            {clash && <p className="text-xs font-bold text-rose-600 mt-1">Same as {clash.name}. Merge them instead.</p>}
+            {!isNew && name.trim() && name.trim() !== category.name && !clash && (
+              <p className="text-xs font-bold text-slate-400 mt-1">Entries filed under {category.name} move to the new name.</p>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className={labelClass}>Kind</label>
+              <select value={kind} onChange={e => setKind(e.target.value as CategoryKind)} className={fieldClass}>
+                <option value="income">Income</option>
+                <option value="expense">Expense</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Icon</label>
+              <input value={icon} onChange={e => setIcon(e.target.value)} maxLength={4} className={`${fieldClass} text-center`} />
+            </div>
+            <div>
+              <label className={labelClass}>Colour</label>
+              <input type="color" value={color} onChange={e => setColor(e.target.value)} className="w-full h-[58px] rounded-2xl border border-slate-100 bg-slate-50 p-2" />
+            </div>
+          </div>
+          {kind === 'expense' && (
+            <div>
+              <label className={labelClass}>Monthly Budget ({currency})</label>
+              <input type="number" inputMode="decimal" min="0" value={budget} onChange={e => setBudget(e.target.value)} placeholder="No budget" className={fieldClass} />
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>Other Names</label>
+            <input value={aliases} onChange={e => setAliases(e.target.value)} placeholder="e.g. boda, fare" className={fieldClass} />
+          </div>
+        </div>
+
+        <button onClick={save} disabled={!isValid} className="w-full bg-slate-900 text-white font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50">
+          {isNew ? 'Add Category' : 'Save'}
+        </button>
+
+        {!isNew && others.length > 0 && (
+          <div className="space-y-3 pt-2 border-t border-slate-50">
+            <label className={`${labelClass} pt-4`}>Merge Into</label>
+            <div className="flex gap-3">
+              <select value={mergeInto} onChange={e => setMergeInto(e.target.value)} className={fieldClass}>
+                <option value="">Choose a category</option>
+                {others.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
+              </select>
+              <button onClick={() => target && onMerge(category, target)} disabled={!target} className="bg-rose-600 text-white font-black px-6 rounded-2xl active:scale-95 transition-all disabled:opacity-50">Merge</button>
+            </div>
+            <p className="text-xs font-bold text-slate-400">Every entry filed under {category.name} moves to the chosen category, and {category.name} becomes one of its other names.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Category } from '../types';
+import { formatMoney } from '../utils/currency';
+
+interface CategorySettingsProps {
+  categories: Category[];
+  currency: string;
+  onAdd: () => void;
+  onEdit: (category: Category) => void;
+}
+
+export const CategorySettings: React.FC<CategorySettingsProps> = ({ categories, currency, onAdd, onEdit }) => (
+  <div className="bg-white rounded-[2.5rem] border border-slate-100 divide-y divide-slate-50 overflow-hidden shadow-sm">
+    <div className="px-8 py-6 flex justify-between items-center">
+      <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Categories & Budgets</span>
+      <button onClick={onAdd} className="text-xs font-black text-blue-600 uppercase tracking-widest">Add</button>
+    </div>
+    {categories.map(category => (
+      <button key={category.id} onClick={() => onEdit(category)} className="w-full px-8 py-4 flex items-center justify-between gap-4 text-left active:bg-slate-50">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="w-9 h-9 rounded-xl flex items-center justify-center flex-shrink-0" style={{ backgroundColor: `${category.color}22` }}>{category.icon}</span>
+          <div className="min-w-0">
+            <p className="font-bold text-slate-900 truncate">{category.name}</p>
+            <p className="text-[10px] font-black uppercase tracking-widest" style={{ color: category.color }}>{category.kind}</p>
+          </div>
+        </div>
+        <span className="text-xs font-black text-slate-400 whitespace-nowrap">
+          {category.monthlyBudget ? `${formatMoney(category.monthlyBudget, currency)} / month` : ''}
+        </span>
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { DebtKind, InvoiceSummary, PaymentReceipt, StatementLine, Transaction } from '../types';
+import { COLORS } from '../constants';
+import { formatStatement, paymentTypeFor } from '../utils/debts';
+import { printText, shareText } from '../utils/share';
+import { formatMoney } from '../utils/currency';
+import { toDateInputValue, withLocalDate } from '../utils/dates';
+import { INVOICE_STATUS_LABELS, formatDocumentNumber, invoicedTransactionIds } from '../utils/invoices';
+
+interface CounterpartyLedgerProps {
+  name: string;
+  lines: StatementLine[];
+  currency: string;
+  businessName: string;
+  kind: DebtKind;
+  invoices: InvoiceSummary[]; // Receivables only, like the rest of invoicing
+  receipts: PaymentReceipt[];
+  onRecordPayment?: (amount: number, date: string) => void; // Unset for those who may not settle accounts
+  onCreateInvoice: (transactions: Transaction[]) => void;
+  onOpenInvoice: (summary: InvoiceSummary) => void;
+  onOpenReceipt: (receipt: PaymentReceipt) => void;
+}
+
+const STATUS_CLASSES = {
+  open: 'bg-amber-50 text-amber-700',
+  partially_paid: 'bg-blue-50 text-blue-700',
+  paid: 'bg-emerald-50 text-emerald-700',
+};
+
+export const CounterpartyLedger: React.FC<CounterpartyLedgerProps> = ({ name, lines, currency, businessName, kind, invoices, receipts, onRecordPayment, onCreateInvoice, onOpenInvoice, onOpenReceipt }) => {
+  const [paymentInput, setPaymentInput] = useState('');
+  const [paymentDay, setPaymentDay] = useState(() => toDateInputValue(new Date().toISOString()));
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const balance = lines.length ? lines[lines.length - 1].balance : 0;
+  const payment = Number(paymentInput);
+  const canPay = Number.isFinite(payment) && payment > 0 && payment <= balance;
+  const isPayable = kind === 'payable';
+  const invoiced = invoicedTransactionIds(invoices.map(summary => summary.invoice));
+  const statement = () => formatStatement(businessName, name, lines, currency, kind);
+
+  const submitPayment = () => {
+    if (!canPay || !onRecordPayment) return;
+    onRecordPayment(payment, withLocalDate(new Date().toISOString(), paymentDay));
+    setPaymentInput('');
+  };
+
+  const toggleSelected = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const createInvoice = () => {
+    onCreateInvoice(lines.map(line => line.transaction).filter(tx => selected.has(tx.id)));
+    setSelected(new Set());
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <div className="bg-slate-900 text-white p-8 rounded-[2.5rem] shadow-2xl">
+        <p className="text-slate-400 text-xs font-black uppercase tracking-widest mb-2">{isPayable ? `We owe ${name}` : `${name} owes`}</p>
+        <h4 className={`text-4xl font-black ${isPayable ? 'text-violet-400' : 'text-amber-400'}`}>{formatMoney(balance, currency)}</h4>
+        <div className="grid grid-cols-2 gap-3 mt-8">
+          <button onClick={() => shareText(`Statement for ${name}`, statement())} className="bg-white/10 font-black py-4 rounded-2xl active:scale-95 transition-all text-sm">Share</button>
+          <button onClick={() => printText(`Statement for ${name}`, statement())} className="bg-white/10 font-black py-4 rounded-2xl active:scale-95 transition-all text-sm">Print</button>
+        </div>
+        {!isPayable && (
+          <button onClick={createInvoice} disabled={selected.size === 0} className="w-full mt-3 bg-white text-slate-900 font-black py-4 rounded-2xl active:scale-95 transition-all text-sm disabled:opacity-30">
+            {selected.size === 0 ? 'Tick credit sales to invoice' : `Invoice ${selected.size} ${selected.size === 1 ? 'Sale' : 'Sales'}`}
+          </button>
+        )}
+      </div>
+
+      {balance > 0 && onRecordPayment && (
+        <div className="bg-white p-2 rounded-[2rem] border border-slate-100 shadow-sm flex items-center gap-2">
+          <input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            value={paymentInput}
+            onChange={e => setPaymentInput(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && submitPayment()}
+            placeholder="Payment amount"
+            className="flex-1 min-w-0 px-6 py-4 focus:outline-none text-slate-900 font-bold bg-transparent"
+          />
+          <button onClick={() => setPaymentInput(String(balance))} className="text-[10px] font-black uppercase tracking-widest text-blue-600 px-2">Full</button>
+          <button onClick={submitPayment} disabled={!canPay} className="bg-slate-900 text-white font-black px-5 py-4 rounded-2xl shadow-md active:scale-90 transition-transform disabled:opacity-30">Record</button>
+        </div>
+      )}
+      {balance > 0 && onRecordPayment && (
+        <label className="flex items-center justify-between px-6 text-[10px] font-black uppercase tracking-widest text-slate-300">
+          Paid On
+          <input
+            type="date"
+            value={paymentDay}
+            max={toDateInputValue(new Date().toISOString())}
+            onChange={e => e.target.value && setPaymentDay(e.target.value)}
+            className="bg-transparent text-slate-900 font-bold text-sm normal-case tracking-normal focus:outline-none"
+          />
+        </label>
+      )}
+
+      {!isPayable && (invoices.length > 0 || receipts.length > 0) && (
+        <div className="space-y-2">
+          <h5 className="font-black text-slate-900 px-2">Invoices & Receipts</h5>
+          {invoices.map(summary => (
+            <button key={summary.invoice.id} onClick={() => onOpenInvoice(summary)} className="w-full bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between text-left active:bg-slate-50">
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-800">{formatDocumentNumber('INV', summary.invoice.number)}</p>
+                <p className="text-[10px] text-slate-400 font-medium">{new Date(summary.invoice.issuedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+              </div>
+              <div className="text-right">
+                <p className="font-bold text-slate-900">{formatMoney(summary.total)}</p>
+                <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${STATUS_CLASSES[summary.status]}`}>{INVOICE_STATUS_LABELS[summary.status]}</span>
+              </div>
+            </button>
+          ))}
+          {receipts.map(receipt => (
+            <button key={receipt.id} onClick={() => onOpenReceipt(receipt)} className="w-full bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between text-left active:bg-slate-50">
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-800">{formatDocumentNumber('RCT', receipt.number)}</p>
+                <p className="text-[10px] text-slate-400 font-medium">{new Date(receipt.paidAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+              </div>
+              <p className={`font-bold ${COLORS.income}`}>{formatMoney(receipt.amount)}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h5 className="font-black text-slate-900 px-2">Statement</h5>
+        {lines.length === 0 ? <div className="py-20 text-center text-slate-300 font-bold italic">No credit history.</div> : [...lines].reverse().map(({ transaction, balance: running }) => {
+          const isCredit = transaction.type !== paymentTypeFor(kind);
+          const canInvoice = isCredit && !isPayable && !transaction.entryCount && !invoiced.has(transaction.id);
+          return (
+            <div
+              key={transaction.id}
+              onClick={canInvoice ? () => toggleSelected(transaction.id) : undefined}
+              className={`bg-white p-4 rounded-xl shadow-sm border flex items-center justify-between ${selected.has(transaction.id) ? 'border-slate-900' : 'border-slate-100'} ${canInvoice ? 'cursor-pointer' : ''}`}
+            >
+              {canInvoice && (
+                <span className={`w-5 h-5 mr-3 rounded-full border-2 flex-shrink-0 flex items-center justify-center text-[10px] text-white ${selected.has(transaction.id) ? 'bg-slate-900 border-slate-900' : 'border-slate-200'}`}>
+                  {selected.has(transaction.id) && '✓'}
+                </span>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="font-semibold text-slate-800">{isCredit ? (isPayable ? 'Purchase' : 'Credit') : 'Payment'}{invoiced.has(transaction.id) && <span className="ml-2 text-[10px] text-slate-400 font-black uppercase tracking-widest">Invoiced</span>}</p>
+                <p className="text-[10px] text-slate-400 font-medium">{new Date(transaction.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+              </div>
+              <div className="text-right">
+                <p className={`font-bold ${isCredit ? (isPayable ? COLORS.payable : COLORS.debt) : isPayable ? COLORS.expense : COLORS.income}`}>{isCredit ? '+' : '-'}{formatMoney(transaction.amount)}</p>
+                <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Bal {formatMoney(running)}</p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ExchangeRates, SUPPORTED_CURRENCIES, convert } from '../utils/currency';
+
+interface CurrencySettingsProps {
+  baseCurrency: string;
+  rates: ExchangeRates;
+  onChangeBase: (currency: string) => void;
+  onChangeRates: (rates: ExchangeRates) => void;
+}
+
+export const CurrencySettings: React.FC<CurrencySettingsProps> = ({ baseCurrency, rates, onChangeBase, onChangeRates }) => {
+  const others = SUPPORTED_CURRENCIES.filter(c => c !== baseCurrency);
+
+  // Rates are edited as "1 KES = x UGX" but stored per USD, see ExchangeRates.
+  const updateRate = (currency: string, value: string) => {
+    const perUnit = Number(value);
+    if (!Number.isFinite(perUnit) || perUnit <= 0 || !rates[baseCurrency]) return;
+    onChangeRates({ ...rates, [currency]: rates[baseCurrency] / perUnit });
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border border-slate-100 divide-y divide-slate-50 overflow-hidden shadow-sm">
+      <div className="px-8 py-6 flex justify-between items-center">
+        <span className="font-bold text-slate-600">Base Currency</span>
+        <select value={baseCurrency} onChange={e => onChangeBase(e.target.value)} className="text-slate-900 font-black tracking-tight bg-transparent focus:outline-none text-right">
+          {[...new Set([baseCurrency, ...SUPPORTED_CURRENCIES])].map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+      <div className="px-8 py-6 space-y-3">
+        <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest block">Exchange Rates</span>
+        {others.map(currency => (
+          <label key={`${baseCurrency}-${currency}`} className="flex items-center justify-between gap-4">
+            <span className="font-bold text-slate-600 whitespace-nowrap">1 {currency} =</span>
+            <span className="flex items-center gap-2 min-w-0">
+              <input
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="any"
+                defaultValue={Number(convert(1, currency, baseCurrency, rates).toPrecision(6))}
+                onBlur={e => updateRate(currency, e.target.value)}
+                className="w-32 px-4 py-2 rounded-xl border border-slate-100 bg-slate-50 text-slate-900 font-bold text-right focus:outline-none focus:ring-2 focus:ring-slate-900"
+              />
+              <span className="font-black text-slate-900">{baseCurrency}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
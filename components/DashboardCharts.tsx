@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { Category, HistoryFilter, Transaction, TransactionType } from '../types';
+import { addDays, isInRange, startOfDay } from '../utils/dates';
+import { TrendInterval, dailyFlows, profitTrend } from '../utils/analytics';
+import { isOutflow, totalsByCategory } from '../utils/ledger';
+import { formatMoney } from '../utils/currency';
+import { findCategory } from '../utils/categories';
+
+interface DashboardChartsProps {
+  transactions: Transaction[];
+  categories: Category[]; // For icons and colours
+  currency: string;
+  weekStartsOn: number;
+  onDrillDown: (filter: HistoryFilter) => void;
+}
+
+const WINDOW_DAYS = 30;
+const TOP_CATEGORIES = 5;
+const CASH_TYPES = [TransactionType.INCOME, TransactionType.DEBT_PAYMENT, TransactionType.EXPENSE, TransactionType.PAYABLE_PAYMENT];
+
+const ChartCard: React.FC<{ title: string; subtitle: string; action?: React.ReactNode; children: React.ReactNode }> = ({ title, subtitle, action, children }) => (
+  <div className="bg-white rounded-[2.5rem] border border-slate-100 shadow-sm p-6 space-y-4">
+    <div className="flex justify-between items-start gap-4">
+      <div>
+        <h3 className="text-lg font-black text-slate-900 tracking-tight">{title}</h3>
+        <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{subtitle}</p>
+      </div>
+      {action}
+    </div>
+    {children}
+  </div>
+);
+
+export const DashboardCharts: React.FC<DashboardChartsProps> = ({ transactions, categories, currency, weekStartsOn, onDrillDown }) => {
+  const [trendInterval, setTrendInterval] = useState<TrendInterval>('week');
+
+  const recent = useMemo(() => {
+    const end = addDays(startOfDay(new Date()), 1);
+    return { start: addDays(end, -WINDOW_DAYS), end, label: `Last ${WINDOW_DAYS} days` };
+  }, []);
+
+  const spending = useMemo(() => {
+    const inWindow = transactions.filter(t => isInRange(t.date, recent));
+    return totalsByCategory(inWindow, isOutflow).slice(0, TOP_CATEGORIES);
+  }, [transactions, recent]);
+
+  const flows = useMemo(() => dailyFlows(transactions, WINDOW_DAYS), [transactions]);
+  const trend = useMemo(
+    () => profitTrend(transactions, trendInterval, trendInterval === 'week' ? 8 : 6, weekStartsOn),
+    [transactions, trendInterval, weekStartsOn]
+  );
+
+  const topSpend = spending[0]?.amount || 0;
+  const topFlow = Math.max(0, ...flows.map(f => Math.max(f.inflow, f.outflow)));
+  const topProfit = Math.max(0, ...trend.map(t => Math.abs(t.profit)));
+
+  return (
+    <div className="space-y-6">
+      <ChartCard title="Spending by Category" subtitle={recent.label}>
+        {spending.length === 0 ? <p className="text-sm text-slate-300 font-bold italic">No spending recorded.</p> : (
+          <div className="space-y-3">
+            {spending.map(row => {
+              const category = findCategory(row.category, categories);
+              return (
+                <button
+                  key={row.category}
+                  onClick={() => onDrillDown({ label: `${row.category} · ${recent.label}`, category: row.category, types: [TransactionType.EXPENSE, TransactionType.PAYABLE_PAYMENT], from: recent.start.toISOString(), to: recent.end.toISOString() })}
+                  className="w-full text-left active:scale-[0.98] transition-transform"
+                >
+                  <div className="flex justify-between text-xs font-bold mb-1">
+                    <span className="text-slate-600 capitalize truncate">{category ? `${category.icon} ` : ''}{row.category}</span>
+                    <span className="text-slate-900 whitespace-nowrap pl-2">{formatMoney(row.amount, currency)}</span>
+                  </div>
+                  <div className="h-2 bg-slate-50 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${category ? '' : 'bg-rose-500'}`} style={{ width: `${(row.amount / topSpend) * 100}%`, backgroundColor: category?.color }} />
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </ChartCard>
+
+      <ChartCard title="Money In vs Out" subtitle={`Daily · ${recent.label}`}>
+        <div className="flex items-end gap-[2px] h-32">
+          {flows.map(day => (
+            <button
+              key={day.range.start.toISOString()}
+              onClick={() => onDrillDown({ label: day.range.label, types: CASH_TYPES, from: day.range.start.toISOString(), to: day.range.end.toISOString() })}
+              className="flex-1 h-full flex items-end gap-px active:opacity-60"
+              aria-label={`${day.range.label}: ${formatMoney(day.inflow, currency)} in, ${formatMoney(day.outflow, currency)} out`}
+            >
+              <div className="flex-1 bg-emerald-500 rounded-t-sm" style={{ height: topFlow ? `${(day.inflow / topFlow) * 100}%` : 0 }} />
+              <div className="flex-1 bg-rose-500 rounded-t-sm" style={{ height: topFlow ? `${(day.outflow / topFlow) * 100}%` : 0 }} />
+            </button>
+          ))}
+        </div>
+        <div className="flex justify-between text-[9px] font-black text-slate-300 uppercase tracking-widest">
+          <span>{flows[0]?.range.start.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })}</span>
+          <span className="flex gap-3"><span className="text-emerald-600">● In</span><span className="text-rose-600">● Out</span></span>
+          <span>Today</span>
+        </div>
+      </ChartCard>
+
+      <ChartCard
+        title="Profit Trend"
+        subtitle={trendInterval === 'week' ? 'Last 8 weeks' : 'Last 6 months'}
+        action={
+          <div className="flex bg-slate-50 rounded-xl p-1">
+            {(['week', 'month'] as TrendInterval[]).map(option => (
+              <button key={option} onClick={() => setTrendInterval(option)} className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest ${trendInterval === option ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}>
+                {option === 'week' ? 'Weekly' : 'Monthly'}
+              </button>
+            ))}
+          </div>
+        }
+      >
+        <div className="flex gap-2 h-32">
+          {trend.map(point => {
+            const height = topProfit ? `${(Math.abs(point.profit) / topProfit) * 100}%` : 0;
+            return (
+              <button
+                key={point.range.start.toISOString()}
+                onClick={() => onDrillDown({ label: point.range.label, types: CASH_TYPES, from: point.range.start.toISOString(), to: point.range.end.toISOString() })}
+                className="flex-1 h-full flex flex-col active:opacity-60"
+                aria-label={`${point.range.label}: ${formatMoney(point.profit, currency)}`}
+              >
+                <div className="h-1/2 w-full flex items-end">
+                  {point.profit > 0 && <div className="w-full bg-blue-600 rounded-t-md" style={{ height }} />}
+                </div>
+                <div className="h-1/2 w-full border-t border-slate-100">
+                  {point.profit < 0 && <div className="w-full bg-rose-500 rounded-b-md" style={{ height }} />}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex gap-2">
+          {trend.map(point => (
+            <span key={point.range.start.toISOString()} className="flex-1 text-center text-[9px] font-black text-slate-300 uppercase tracking-widest truncate">{point.shortLabel}</span>
+          ))}
+        </div>
+      </ChartCard>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { BusinessDocument } from '../types';
+import { formatMoney } from '../utils/currency';
+import { buildDocumentImage, buildDocumentPdf } from '../utils/documentExport';
+import { documentFileName, documentMessage, whatsappLink } from '../utils/invoices';
+import { shareFile } from '../utils/share';
+
+interface DocumentViewerProps {
+  document: BusinessDocument;
+  getLink: (pdf: Blob, fileName: string) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const DocumentViewer: React.FC<DocumentViewerProps> = ({ document: doc, getLink, onClose }) => {
+  const [sending, setSending] = useState(false);
+  const title = `${doc.title} ${doc.number}`;
+
+  const sharePdf = () => shareFile(buildDocumentPdf(doc), documentFileName(doc, 'pdf'), title);
+
+  const shareImage = async () => {
+    try {
+      await shareFile(await buildDocumentImage(doc), documentFileName(doc, 'png'), title);
+    } catch (err: any) {
+      console.error("Image Error:", err);
+      alert("Could not make the image: " + err.message);
+    }
+  };
+
+  // The window opens straight away so the browser doesn't block it while the PDF uploads.
+  // Without a connection the message goes without the download link.
+  const sendWhatsApp = async () => {
+    const win = window.open('', '_blank');
+    setSending(true);
+    try {
+      const link = await getLink(buildDocumentPdf(doc), documentFileName(doc, 'pdf'));
+      const url = whatsappLink(documentMessage(doc, link));
+      if (win) win.location.href = url;
+      else window.location.href = url;
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-md flex items-end justify-center px-4 pb-8">
+      <div className="bg-white w-full max-w-lg rounded-[3rem] p-8 space-y-6 animate-in slide-in-from-bottom duration-500 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-start">
+          <div className="min-w-0">
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight truncate">{doc.businessName}</h3>
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{title} • {formatDay(doc.issuedAt)}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-300 p-2">✕</button>
+        </div>
+
+        <div className="rounded-2xl border border-slate-100 p-5 space-y-4">
+          <div className="flex justify-between items-baseline gap-3">
+            <div className="min-w-0">
+              <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{doc.title === 'Invoice' ? 'Bill to' : 'Received from'}</p>
+              <p className="font-black text-slate-900 truncate capitalize">{doc.counterparty}</p>
+            </div>
+            {doc.status && <span className="text-[10px] font-black uppercase tracking-widest bg-slate-100 text-slate-900 px-3 py-1 rounded-full whitespace-nowrap">{doc.status}</span>}
+          </div>
+          <div className="space-y-2">
+            {doc.lines.map((line, i) => (
+              <div key={i} className="flex justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="font-bold text-slate-900 truncate">{line.description}</p>
+                  <p className="text-[10px] text-slate-400 font-medium">{formatDay(line.date)}</p>
+                </div>
+                <span className="font-bold text-slate-900 whitespace-nowrap">{formatMoney(line.amount, doc.currency)}</span>
+              </div>
+            ))}
+          </div>
+          <div className="border-t border-slate-100 pt-3 space-y-1">
+            {doc.totals.map((total, i) => (
+              <div key={total.label} className={`flex justify-between ${i === doc.totals.length - 1 ? 'font-black text-slate-900' : 'text-sm font-bold text-slate-400'}`}>
+                <span>{total.label}</span>
+                <span>{formatMoney(total.amount, doc.currency)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <button onClick={sendWhatsApp} disabled={sending} className="w-full bg-emerald-600 text-white font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50">
+            {sending ? 'Preparing...' : 'Send on WhatsApp'}
+          </button>
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={sharePdf} className="bg-slate-100 text-slate-900 font-black py-4 rounded-2xl active:scale-95 transition-all text-sm">PDF</button>
+            <button onClick={shareImage} className="bg-slate-100 text-slate-900 font-black py-4 rounded-2xl active:scale-95 transition-all text-sm">Image</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
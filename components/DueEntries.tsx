@@ -0,0 +1,40 @@
+import React from 'react';
+import { DueEntry } from '../types';
+import { formatMoney } from '../utils/currency';
+
+interface DueEntriesProps {
+  entries: DueEntry[];
+  onApprove: (entries: DueEntry[]) => void;
+  onSkip: (entry: DueEntry) => void;
+}
+
+export const DueEntries: React.FC<DueEntriesProps> = ({ entries, onApprove, onSkip }) => (
+  <div className="bg-amber-50 rounded-[2.5rem] p-6 space-y-4">
+    <div className="flex justify-between items-center">
+      <div>
+        <h3 className="text-lg font-black text-amber-900 tracking-tight">Due for Approval</h3>
+        <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Recurring entries</p>
+      </div>
+      {entries.length > 1 && (
+        <button onClick={() => onApprove(entries)} className="text-[10px] uppercase font-black bg-amber-900 text-white px-4 py-2.5 rounded-xl active:scale-90 transition-transform">Approve All</button>
+      )}
+    </div>
+    {entries.map(entry => (
+      <div key={entry.key} className="bg-white rounded-2xl p-4 flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="font-black text-slate-900 truncate capitalize">{entry.template.counterparty || entry.template.category}</p>
+          <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">
+            {entry.template.type.replace('_', ' ')} • {new Date(entry.dueDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </p>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <p className="font-black text-slate-900">{formatMoney(entry.template.amount, entry.template.currency)}</p>
+          <div className="flex gap-3 justify-end text-[10px] font-black uppercase tracking-widest mt-1">
+            <button onClick={() => onSkip(entry)} className="text-slate-400">Skip</button>
+            <button onClick={() => onApprove([entry])} className="text-emerald-600">Approve</button>
+          </div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
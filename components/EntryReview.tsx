@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { BudgetAlert, PendingEntry, TransactionType } from '../types';
+import { SUPPORTED_CURRENCIES, formatMoney } from '../utils/currency';
+import { toDateInputValue, withLocalDate } from '../utils/dates';
+
+interface EntryReviewProps {
+  entries: PendingEntry[];
+  currency: string;
+  categories: string[]; // Managed category names, offered while typing
+  budgetAlerts: Record<string, BudgetAlert>; // By entry key
+  receiptPreview?: string | null;
+  onChange: (entries: PendingEntry[]) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const fieldClass = "w-full px-4 py-3 rounded-xl border border-slate-100 bg-slate-50 text-slate-900 font-bold text-sm focus:outline-none focus:ring-2 focus:ring-slate-900";
+const labelClass = "text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block";
+
+// Entries dated to another day stand out so a misheard "yesterday" is caught before saving.
+const isBackdated = (iso: string) => toDateInputValue(iso) !== toDateInputValue(new Date().toISOString());
+
+export const EntryReview: React.FC<EntryReviewProps> = ({ entries, currency, categories, budgetAlerts, receiptPreview, onChange, onSave, onCancel }) => {
+  // A single entry opens ready to correct; longer lists open one entry at a time.
+  const [editingKey, setEditingKey] = useState<string | null>(entries.length === 1 ? entries[0].key : null);
+  const confirmed = entries.filter(e => e.confirmed);
+  const confirmedCount = confirmed.length;
+  const canSave = confirmedCount > 0 && confirmed.every(e => (e.amount || 0) > 0);
+
+  const update = (key: string, changes: Partial<PendingEntry>) =>
+    onChange(entries.map(e => e.key === key ? { ...e, ...changes } : e));
+
+  const remove = (key: string) => {
+    const remaining = entries.filter(e => e.key !== key);
+    if (remaining.length === 0) onCancel();
+    else onChange(remaining);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col gap-4 p-6">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black bg-blue-100 text-blue-700 px-3 py-1.2 rounded-full uppercase tracking-widest">
+          {entries.length === 1 ? 'Confirm Logic' : `Review ${entries.length} Entries`}
+        </span>
+        <button onClick={onCancel} className="text-slate-300">✕</button>
+      </div>
+      {receiptPreview && <img src={receiptPreview} alt="Scanned receipt" className="w-full max-h-40 object-cover rounded-2xl border border-slate-100" />}
+
+      <div className="space-y-3 max-h-[45vh] overflow-y-auto no-scrollbar">
+        {entries.map(entry => (
+          <div key={entry.key} className={`rounded-2xl border p-4 space-y-3 transition-opacity ${entry.confirmed ? 'border-slate-100' : 'border-dashed border-slate-200 opacity-50'}`}>
+            <div className="flex items-center justify-between gap-3">
+              <button onClick={() => setEditingKey(editingKey === entry.key ? null : entry.key)} className="min-w-0 text-left">
+                <p className="text-[10px] text-slate-300 uppercase font-black tracking-widest mb-1">
+                  {(entry.type || TransactionType.INCOME).replace('_', ' ')} • <span className={isBackdated(entry.date) ? 'text-amber-600' : ''}>{new Date(entry.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}</span>
+                </p>
+                <p className="text-lg font-black text-slate-900 truncate capitalize">{entry.counterparty || entry.category || 'General'}</p>
+                {entry.items && entry.items.length > 0 && (
+                  <p className="text-xs font-bold text-slate-400 truncate">
+                    {entry.items.map(item => `${item.quantity} ${item.unit ? `${item.unit} ` : ''}${item.name}`).join(', ')}
+                  </p>
+                )}
+              </button>
+              <p className="text-xl font-black text-slate-900 whitespace-nowrap">{formatMoney(entry.amount || 0, entry.currency?.toUpperCase() || currency)}</p>
+            </div>
+
+            {budgetAlerts[entry.key] && (
+              <p className="text-xs font-bold text-rose-600 bg-rose-50 rounded-xl px-3 py-2">
+                Takes {budgetAlerts[entry.key].category} to {formatMoney(budgetAlerts[entry.key].spent, currency)} this month, over its {formatMoney(budgetAlerts[entry.key].budget, currency)} budget.
+              </p>
+            )}
+
+            {editingKey === entry.key && (
+              <div className="space-y-2">
+                <div>
+                  <label className={labelClass}>Type</label>
+                  <select value={entry.type || TransactionType.INCOME} onChange={e => update(entry.key, { type: e.target.value as TransactionType })} className={fieldClass}>
+                    {Object.values(TransactionType).map(t => <option key={t} value={t}>{t.replace('_', ' ')}</option>)}
+                  </select>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="col-span-2">
+                    <label className={labelClass}>Amount</label>
+                    <input type="number" inputMode="decimal" min="0" value={entry.amount ?? ''} onChange={e => update(entry.key, { amount: Number(e.target.value) })} className={fieldClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Currency</label>
+                    <select value={entry.currency?.toUpperCase() || currency} onChange={e => update(entry.key, { currency: e.target.value })} className={fieldClass}>
+                      {[...new Set([entry.currency?.toUpperCase() || currency, ...SUPPORTED_CURRENCIES])].map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className={labelClass}>Category</label>
+                    <input list="entry-categories" value={entry.category || ''} onChange={e => update(entry.key, { category: e.target.value })} placeholder="General" className={fieldClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Counterparty</label>
+                    <input value={entry.counterparty || ''} onChange={e => update(entry.key, { counterparty: e.target.value || undefined })} className={fieldClass} />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className={labelClass}>Note</label>
+                    <input value={entry.note || ''} onChange={e => update(entry.key, { note: e.target.value || undefined })} className={fieldClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Date</label>
+                    <input type="date" value={toDateInputValue(entry.date)} onChange={e => e.target.value && update(entry.key, { date: withLocalDate(entry.date, e.target.value) })} className={fieldClass} />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-4 text-[10px] font-black uppercase tracking-widest">
+              <button onClick={() => update(entry.key, { confirmed: !entry.confirmed })} className={entry.confirmed ? 'text-emerald-600' : 'text-slate-400'}>
+                {entry.confirmed ? '✓ Confirmed' : 'Confirm'}
+              </button>
+              <button onClick={() => setEditingKey(editingKey === entry.key ? null : entry.key)} className="text-blue-600">{editingKey === entry.key ? 'Done' : 'Edit'}</button>
+              <button onClick={() => remove(entry.key)} className="text-rose-600 ml-auto">Remove</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <datalist id="entry-categories">
+        {categories.map(name => <option key={name} value={name} />)}
+      </datalist>
+
+      <button onClick={onSave} disabled={!canSave} className="w-full bg-slate-900 text-white font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50">
+        {entries.length === 1 ? 'Sync Record' : `Sync ${confirmedCount} ${confirmedCount === 1 ? 'Record' : 'Records'}`}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  SpreadsheetData,
+  guessColumnMapping,
+  mapImportRows
+} from '../utils/spreadsheet';
+import { formatMoney } from '../utils/currency';
+
+interface ImportPreviewProps {
+  fileName: string;
+  data: SpreadsheetData;
+  baseCurrency: string;
+  existing: Transaction[];
+  onImport: (transactions: Omit<Transaction, 'id'>[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ fileName, data, baseCurrency, existing, onImport, onClose }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(data.headers));
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const rows = useMemo(() => mapImportRows(data, mapping, baseCurrency, existing), [data, mapping, baseCurrency, existing]);
+  const valid = rows.filter(r => r.transaction && (includeDuplicates || !r.duplicate));
+  const invalidCount = rows.filter(r => r.errors.length > 0).length;
+  const duplicateCount = rows.filter(r => r.duplicate).length;
+  const hiddenErrorCount = rows.slice(PREVIEW_LIMIT).filter(r => r.errors.length > 0).length;
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-slate-50 flex flex-col animate-in slide-in-from-bottom duration-500 overflow-x-hidden">
+      <header className="w-full bg-white border-b sticky top-0 z-10 safe-top">
+        <div className="max-w-lg mx-auto w-full px-6 h-20 flex justify-between items-center">
+          <div className="min-w-0">
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest leading-none truncate">{fileName}</p>
+            <h3 className="text-lg font-black text-slate-900 uppercase tracking-tighter">Import Preview</h3>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400">✕</button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto w-full max-w-lg mx-auto p-6 space-y-8 no-scrollbar">
+        <div className="bg-white rounded-[2.5rem] border border-slate-100 divide-y divide-slate-50 overflow-hidden shadow-sm">
+          {IMPORT_FIELDS.map(field => (
+            <div key={field} className="px-8 py-4 flex justify-between items-center gap-4">
+              <span className="font-bold text-slate-600 capitalize">{field}</span>
+              <select
+                value={mapping[field] || ''}
+                onChange={e => setMapping(prev => ({ ...prev, [field]: e.target.value || undefined }))}
+                className="min-w-0 text-slate-900 font-black bg-transparent focus:outline-none text-right"
+              >
+                <option value="">— Not mapped —</option>
+                {data.headers.map(h => <option key={h} value={h}>{h}</option>)}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="bg-white rounded-2xl border border-slate-100 p-4"><p className="text-2xl font-black text-emerald-600">{valid.length}</p><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Ready</p></div>
+          <div className="bg-white rounded-2xl border border-slate-100 p-4"><p className="text-2xl font-black text-rose-600">{invalidCount}</p><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Errors</p></div>
+          <div className="bg-white rounded-2xl border border-slate-100 p-4"><p className="text-2xl font-black text-amber-600">{duplicateCount}</p><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Duplicates</p></div>
+        </div>
+
+        {duplicateCount > 0 && (
+          <label className="flex items-center gap-3 px-2 font-bold text-slate-600">
+            <input type="checkbox" checked={includeDuplicates} onChange={e => setIncludeDuplicates(e.target.checked)} className="w-5 h-5" />
+            Import duplicates anyway
+          </label>
+        )}
+
+        <div className="space-y-2 pb-12">
+          {rows.slice(0, PREVIEW_LIMIT).map(r => (
+            <div key={r.row} className={`bg-white p-4 rounded-xl shadow-sm border ${r.errors.length ? 'border-rose-100' : r.duplicate ? 'border-amber-100' : 'border-slate-100'}`}>
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Row {r.row}</span>
+                {r.duplicate && <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">Duplicate</span>}
+              </div>
+              {r.transaction ? (
+                <div className="flex justify-between items-center gap-2">
+                  <p className="font-semibold text-slate-800 truncate">{r.transaction.counterparty || r.transaction.category} <span className="text-[10px] text-slate-400">{r.transaction.type}</span></p>
+                  <p className="font-bold text-slate-900 whitespace-nowrap">{formatMoney(r.transaction.amount, r.transaction.currency)}</p>
+                </div>
+              ) : (
+                r.errors.map(err => <p key={err} className="text-xs font-bold text-rose-600">{err}</p>)
+              )}
+            </div>
+          ))}
+          {rows.length > PREVIEW_LIMIT && (
+            <p className="text-center text-xs font-bold text-slate-400">
+              And {rows.length - PREVIEW_LIMIT} more rows
+              {hiddenErrorCount > 0 && <span className="text-rose-600">, {hiddenErrorCount} with errors</span>}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 bg-white border-t safe-bottom w-full flex justify-center">
+        <button
+          onClick={() => onImport(valid.map(r => r.transaction!))}
+          disabled={valid.length === 0}
+          className="w-full max-w-lg bg-slate-900 text-white py-5 rounded-[2rem] font-black shadow-xl active:scale-95 transition-transform disabled:opacity-50"
+        >
+          Import {valid.length} {valid.length === 1 ? 'Entry' : 'Entries'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { formatMoney } from '../utils/currency';
+
+interface PeriodTotals {
+  totalIn: number;
+  totalOut: number;
+  net: number;
+}
+
+interface PeriodComparisonProps {
+  current: PeriodTotals;
+  previous: PeriodTotals;
+  previousLabel: string;
+  currency: string;
+}
+
+const percentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+export const PeriodComparison: React.FC<PeriodComparisonProps> = ({ current, previous, previousLabel, currency }) => {
+  // For outflow a rise is bad news, so the colours flip.
+  const rows = [
+    { label: 'Inflow', now: current.totalIn, before: previous.totalIn, higherIsBetter: true },
+    { label: 'Outflow', now: current.totalOut, before: previous.totalOut, higherIsBetter: false },
+    { label: 'Net', now: current.net, before: previous.net, higherIsBetter: true },
+  ];
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border border-slate-100 divide-y divide-slate-50 overflow-hidden shadow-sm">
+      <div className="px-8 py-5">
+        <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">Compared with {previousLabel}</p>
+      </div>
+      {rows.map(row => {
+        const change = percentChange(row.now, row.before);
+        const improved = row.higherIsBetter ? row.now >= row.before : row.now <= row.before;
+        return (
+          <div key={row.label} className="px-8 py-4 flex justify-between items-center gap-4">
+            <span className="font-bold text-slate-600">{row.label}</span>
+            <div className="text-right">
+              <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">Was {formatMoney(row.before, currency)}</p>
+              <p className={`font-black ${row.now === row.before ? 'text-slate-400' : improved ? 'text-emerald-600' : 'text-rose-600'}`}>
+                {change === null ? (row.now === 0 ? 'No change' : 'New') : `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Product, StockLevel } from '../types';
+import { DEFAULT_LOW_STOCK } from '../utils/inventory';
+
+interface ProductEditorProps {
+  level?: StockLevel; // Unset when adding a product
+  currency: string;
+  onSave: (product: Product) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full px-5 py-4 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold focus:outline-none focus:ring-2 focus:ring-slate-900";
+const labelClass = "text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block";
+
+export const ProductEditor: React.FC<ProductEditorProps> = ({ level, currency, onSave, onClose }) => {
+  const product = level?.product;
+  const [name, setName] = useState(product?.name || '');
+  const [unit, setUnit] = useState(product?.unit || 'pcs');
+  const [costPrice, setCostPrice] = useState(String(product?.costPrice ?? ''));
+  const [salePrice, setSalePrice] = useState(String(product?.salePrice ?? ''));
+  const [lowStockAt, setLowStockAt] = useState(String(product?.lowStockAt ?? DEFAULT_LOW_STOCK));
+  const [onHand, setOnHand] = useState(String(level?.onHand ?? 0));
+
+  const numbers = [costPrice, salePrice, lowStockAt, onHand].map(v => Number(v || 0));
+  const isValid = name.trim() !== '' && numbers.every(n => Number.isFinite(n)) && numbers.slice(0, 3).every(n => n >= 0);
+
+  const handleSave = () => {
+    const [cost, sale, low, counted] = numbers;
+    // A changed quantity is a stock count: it replaces everything recorded before now.
+    const recount = !level || counted !== level.onHand;
+    onSave({
+      id: product?.id || crypto.randomUUID(),
+      name: name.trim(),
+      unit: unit.trim() || 'pcs',
+      costPrice: cost,
+      salePrice: sale,
+      lowStockAt: low,
+      quantity: recount ? counted : product!.quantity,
+      countedAt: recount ? new Date().toISOString() : product?.countedAt,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-md flex items-end justify-center px-4 pb-8">
+      <div className="bg-white w-full max-w-lg rounded-[3rem] p-8 space-y-6 animate-in slide-in-from-bottom duration-500 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center">
+          <h3 className="text-2xl font-black text-slate-900 tracking-tight">{product ? 'Edit Product' : 'New Product'}</h3>
+          <button onClick={onClose} className="text-slate-300 p-2">✕</button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>Name</label>
+              <input value={name} onChange={e => setName(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Unit</label>
+              <input value={unit} onChange={e => setUnit(e.target.value)} className={fieldClass} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Cost Price ({currency})</label>
+              <input type="number" inputMode="decimal" min="0" value={costPrice} onChange={e => setCostPrice(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Sale Price ({currency})</label>
+              <input type="number" inputMode="decimal" min="0" value={salePrice} onChange={e => setSalePrice(e.target.value)} className={fieldClass} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>On Hand</label>
+              <input type="number" inputMode="decimal" value={onHand} onChange={e => setOnHand(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Low Stock At</label>
+              <input type="number" inputMode="decimal" min="0" value={lowStockAt} onChange={e => setLowStockAt(e.target.value)} className={fieldClass} />
+            </div>
+          </div>
+        </div>
+
+        <button onClick={handleSave} disabled={!isValid} className="w-full bg-slate-900 text-white font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50">Save</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { RecurringTemplate, Schedule, TransactionType } from '../types';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { describeSchedule } from '../utils/recurring';
+
+interface RecurringEditorProps {
+  template: RecurringTemplate;
+  isNew: boolean;
+  onSave: (template: RecurringTemplate) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full px-5 py-4 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold focus:outline-none focus:ring-2 focus:ring-slate-900";
+const labelClass = "text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block";
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const RecurringEditor: React.FC<RecurringEditorProps> = ({ template, isNew, onSave, onClose }) => {
+  const [type, setType] = useState(template.type);
+  const [amount, setAmount] = useState(template.amount ? String(template.amount) : '');
+  const [currency, setCurrency] = useState(template.currency || SUPPORTED_CURRENCIES[0]);
+  const [category, setCategory] = useState(template.category);
+  const [counterparty, setCounterparty] = useState(template.counterparty || '');
+  const [schedule, setSchedule] = useState<Schedule>(template.schedule);
+
+  const value = Number(amount);
+  const isValid = Number.isFinite(value) && value > 0;
+
+  const changeFrequency = (frequency: Schedule['frequency']) =>
+    setSchedule({ frequency, day: 1 });
+
+  const save = (active: boolean) => onSave({
+    ...template,
+    type,
+    amount: value,
+    currency,
+    category: category.trim() || 'General',
+    counterparty: counterparty.trim() || undefined,
+    schedule,
+    active,
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-md flex items-end justify-center px-4 pb-8">
+      <div className="bg-white w-full max-w-lg rounded-[3rem] p-8 space-y-6 animate-in slide-in-from-bottom duration-500 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center">
+          <div>
+            <h3 className="text-2xl font-black text-slate-900 tracking-tight">{isNew ? 'New Recurring Entry' : 'Recurring Entry'}</h3>
+            <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{describeSchedule(schedule)}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-300 p-2">✕</button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass}>Type</label>
+            <select value={type} onChange={e => setType(e.target.value as TransactionType)} className={fieldClass}>
+              {Object.values(TransactionType).map(t => <option key={t} value={t}>{t.replace('_', ' ')}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>Amount</label>
+              <input type="number" inputMode="decimal" min="0" value={amount} onChange={e => setAmount(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Currency</label>
+              <select value={currency} onChange={e => setCurrency(e.target.value)} className={fieldClass}>
+                {[...new Set([currency, ...SUPPORTED_CURRENCIES])].map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Category</label>
+              <input value={category} onChange={e => setCategory(e.target.value)} placeholder="General" className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Counterparty</label>
+              <input value={counterparty} onChange={e => setCounterparty(e.target.value)} className={fieldClass} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Repeats</label>
+              <select value={schedule.frequency} onChange={e => changeFrequency(e.target.value as Schedule['frequency'])} className={fieldClass}>
+                <option value="monthly">Monthly</option>
+                <option value="weekly">Weekly</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{schedule.frequency === 'weekly' ? 'On' : 'Day of Month'}</label>
+              {schedule.frequency === 'weekly' ? (
+                <select value={schedule.day} onChange={e => setSchedule({ ...schedule, day: Number(e.target.value) })} className={fieldClass}>
+                  {WEEKDAYS.map((name, i) => <option key={name} value={i}>{name}</option>)}
+                </select>
+              ) : (
+                <select value={schedule.day} onChange={e => setSchedule({ ...schedule, day: Number(e.target.value) })} className={fieldClass}>
+                  {Array.from({ length: 31 }, (_, i) => i + 1).map(day => <option key={day} value={day}>{day}</option>)}
+                </select>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <button onClick={() => save(true)} disabled={!isValid} className="w-full bg-slate-900 text-white font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50">
+            {isNew ? 'Start Schedule' : template.active ? 'Save' : 'Save and Resume'}
+          </button>
+          {!isNew && template.active && (
+            <button onClick={() => save(false)} className="w-full text-rose-600 font-black py-3 active:scale-95 transition-all">Stop Schedule</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,17 @@
 
 import React from 'react';
+import { formatMoney } from '../utils/currency';
 
 interface SummaryCardProps {
   label: string;
   amount: number;
+  currency?: string;
   colorClass: string;
   icon: React.ReactNode;
 }
 
-export const SummaryCard: React.FC<SummaryCardProps> = ({ label, amount, colorClass, icon }) => {
-  const formattedAmount = new Intl.NumberFormat().format(Math.abs(amount));
+export const SummaryCard: React.FC<SummaryCardProps> = ({ label, amount, currency, colorClass, icon }) => {
+  const formattedAmount = formatMoney(Math.abs(amount), currency);
   
   return (
     <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100 flex flex-col justify-between h-32">
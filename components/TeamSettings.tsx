@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Member, Role } from '../types';
+import { ROLES } from '../utils/permissions';
+
+interface TeamSettingsProps {
+  members: Member[];
+  currentUserId: string;
+  onInvite: (email: string, role: Role) => Promise<void>;
+  onChangeRole: (member: Member, role: Role) => void;
+  onRemove: (member: Member) => void;
+}
+
+export const TeamSettings: React.FC<TeamSettingsProps> = ({ members, currentUserId, onInvite, onChangeRole, onRemove }) => {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('attendant');
+  const [sending, setSending] = useState(false);
+
+  const isValid = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())
+    && !members.some(m => m.email === email.trim().toLowerCase());
+
+  const invite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    try {
+      await onInvite(email.trim(), role);
+      setEmail('');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] border border-slate-100 divide-y divide-slate-50 overflow-hidden shadow-sm">
+      <div className="px-8 py-6">
+        <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest block">Team</span>
+      </div>
+      {members.map(member => (
+        <div key={member.id} className="px-8 py-5 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <p className="font-bold text-slate-900 truncate">{member.email}</p>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-300">{member.status === 'invited' ? 'Invite sent' : 'Active'}</p>
+          </div>
+          {member.userId === currentUserId ? (
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-900">{member.role}</span>
+          ) : (
+            <div className="flex items-center gap-3 flex-shrink-0">
+              <select value={member.role} onChange={e => onChangeRole(member, e.target.value as Role)} className="text-[10px] font-black uppercase tracking-widest bg-transparent focus:outline-none text-right">
+                {ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+              <button onClick={() => onRemove(member)} className="text-[10px] font-black uppercase tracking-widest text-rose-600">Remove</button>
+            </div>
+          )}
+        </div>
+      ))}
+      <form onSubmit={invite} className="px-8 py-6 space-y-3">
+        <input
+          type="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          placeholder="Staff email"
+          className="w-full px-5 py-3 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold focus:outline-none focus:ring-2 focus:ring-slate-900"
+        />
+        <div className="flex gap-3">
+          <select value={role} onChange={e => setRole(e.target.value as Role)} className="flex-1 px-5 py-3 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold capitalize focus:outline-none">
+            {ROLES.filter(r => r !== 'owner').map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <button type="submit" disabled={!isValid || sending} className="bg-slate-900 text-white font-black px-6 rounded-2xl active:scale-95 transition-all disabled:opacity-50">
+            {sending ? 'Sending...' : 'Invite'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -1,27 +1,37 @@
 import React from 'react';
 import { Transaction, TransactionType } from '../types';
 import { Icons, COLORS } from '../constants';
+import { isInflow } from '../utils/ledger';
+import { formatMoney } from '../utils/currency';
 
 interface TransactionCardProps {
   transaction: Transaction;
-  onDelete?: (id: string) => void;
+  recordedBy?: string; // Name of the staff member, when the business has several
+  onEdit?: (transaction: Transaction) => void;
+  onVoid?: (transaction: Transaction) => void;
+  onViewReceipt?: (transaction: Transaction) => void;
 }
 
-export const TransactionCard: React.FC<TransactionCardProps> = ({ transaction, onDelete }) => {
-  const isIncome = transaction.type === TransactionType.INCOME || transaction.type === TransactionType.DEBT_PAYMENT;
+export const TransactionCard: React.FC<TransactionCardProps> = ({ transaction, recordedBy, onEdit, onVoid, onViewReceipt }) => {
+  const isIncome = isInflow(transaction);
   const isDebt = transaction.type === TransactionType.DEBT;
+  const isPayable = transaction.type === TransactionType.CREDIT_PURCHASE;
+  const isVoided = !!transaction.voidedAt;
   
-  const formattedAmount = new Intl.NumberFormat().format(transaction.amount);
+  const formattedAmount = formatMoney(transaction.amount, transaction.currency);
   const formattedDate = new Date(transaction.date).toLocaleDateString('en-US', {
     month: 'short',
     day: 'numeric',
   });
 
   return (
-    <div className="bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between mb-2 w-full max-w-full overflow-hidden">
+    <div
+      onClick={onEdit ? () => onEdit(transaction) : undefined}
+      className={`bg-white p-4 rounded-xl shadow-sm border border-slate-100 flex items-center justify-between mb-2 w-full max-w-full overflow-hidden ${onEdit ? 'cursor-pointer active:bg-slate-50' : ''} ${isVoided ? 'opacity-50' : ''}`}
+    >
       <div className="flex items-center gap-3 min-w-0 flex-1">
-        <div className={`p-2 rounded-full flex-shrink-0 ${isIncome ? 'bg-emerald-50 text-emerald-600' : isDebt ? 'bg-amber-50 text-amber-600' : 'bg-rose-50 text-rose-600'}`}>
-          {isIncome ? <Icons.ArrowUp /> : isDebt ? <Icons.Users /> : <Icons.ArrowDown />}
+        <div className={`p-2 rounded-full flex-shrink-0 ${isIncome ? 'bg-emerald-50 text-emerald-600' : isDebt ? 'bg-amber-50 text-amber-600' : isPayable ? 'bg-violet-50 text-violet-600' : 'bg-rose-50 text-rose-600'}`}>
+          {isIncome ? <Icons.ArrowUp /> : isDebt || isPayable ? <Icons.Users /> : <Icons.ArrowDown />}
         </div>
         <div className="min-w-0 flex-1">
           <h4 className="font-semibold text-slate-800 capitalize truncate">
@@ -29,13 +39,26 @@ export const TransactionCard: React.FC<TransactionCardProps> = ({ transaction, o
           </h4>
           <p className="text-[10px] text-slate-400 font-medium truncate">
             {transaction.category} • {formattedDate}
+            {recordedBy && <span> • {recordedBy}</span>}
+            {transaction.syncStatus && (
+              <span className={transaction.syncStatus === 'failed' ? 'text-rose-500' : 'text-amber-500'}> • {transaction.syncStatus}</span>
+            )}
+            {isVoided ? <span className="text-rose-500"> • voided</span> : transaction.revisions?.length ? <span> • edited</span> : null}
           </p>
         </div>
       </div>
+      {transaction.receiptPath && onViewReceipt && (
+        <button onClick={e => { e.stopPropagation(); onViewReceipt(transaction); }} className="p-2 ml-2 rounded-full text-slate-300 active:scale-75 transition-transform flex-shrink-0" aria-label="View receipt">
+          <Icons.Camera />
+        </button>
+      )}
       <div className="text-right flex-shrink-0 pl-2">
-        <span className={`font-bold text-base whitespace-nowrap ${isIncome ? COLORS.income : isDebt ? COLORS.debt : COLORS.expense}`}>
+        <span className={`font-bold text-base whitespace-nowrap ${isIncome ? COLORS.income : isDebt ? COLORS.debt : isPayable ? COLORS.payable : COLORS.expense} ${isVoided ? 'line-through' : ''}`}>
           {isIncome ? '+' : '-'}{formattedAmount}
         </span>
+        {onVoid && !isVoided && (
+          <button onClick={e => { e.stopPropagation(); onVoid(transaction); }} className="block ml-auto mt-1 text-[9px] font-black uppercase tracking-widest text-slate-300 active:text-rose-600">Void</button>
+        )}
       </div>
     </div>
   );
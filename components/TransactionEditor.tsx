@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Transaction, TransactionChanges, TransactionType } from '../types';
+import { toDateInputValue, withLocalDate } from '../utils/dates';
+import { SUPPORTED_CURRENCIES, formatMoney } from '../utils/currency';
+
+interface TransactionEditorProps {
+  transaction: Transaction;
+  currency: string;
+  onSave: (changes: TransactionChanges) => void;
+  onVoid: () => void;
+  onDiscard: () => void; // Offered while the entry is rejected by the server
+  onClose: () => void;
+}
+
+const fieldClass = "w-full px-5 py-4 rounded-2xl border border-slate-100 bg-slate-50 text-slate-900 font-bold focus:outline-none focus:ring-2 focus:ring-slate-900";
+const labelClass = "text-[10px] font-black text-slate-300 uppercase tracking-widest mb-1 block";
+
+export const TransactionEditor: React.FC<TransactionEditorProps> = ({ transaction, currency, onSave, onVoid, onDiscard, onClose }) => {
+  const [type, setType] = useState(transaction.type);
+  const [amount, setAmount] = useState(String(transaction.amount));
+  const [txCurrency, setTxCurrency] = useState(transaction.currency || currency);
+  const [category, setCategory] = useState(transaction.category);
+  const [counterparty, setCounterparty] = useState(transaction.counterparty || '');
+  const [note, setNote] = useState(transaction.note || '');
+  const [day, setDay] = useState(toDateInputValue(transaction.date));
+
+  const isVoided = !!transaction.voidedAt;
+  const parsedAmount = Number(amount);
+  const isValid = Number.isFinite(parsedAmount) && parsedAmount > 0 && category.trim() !== '';
+
+  const handleSave = () => {
+    const next: TransactionChanges = {
+      type,
+      amount: parsedAmount,
+      currency: txCurrency === (transaction.currency || currency) ? transaction.currency : txCurrency,
+      category: category.trim(),
+      counterparty: counterparty.trim() || undefined,
+      note: note.trim() || undefined,
+      date: withLocalDate(transaction.date, day),
+    };
+    const changed = (Object.keys(next) as (keyof TransactionChanges)[]).filter(key => next[key] !== transaction[key]);
+    if (changed.length === 0) onClose();
+    else onSave(Object.fromEntries(changed.map(key => [key, next[key]])) as TransactionChanges);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-md flex items-end justify-center px-4 pb-8">
+      <div className="bg-white w-full max-w-lg rounded-[3rem] p-8 space-y-6 animate-in slide-in-from-bottom duration-500 shadow-2xl max-h-[90vh] overflow-y-auto no-scrollbar">
+        <div className="flex justify-between items-center">
+          <h3 className="text-2xl font-black text-slate-900 tracking-tight">{isVoided ? 'Voided Entry' : 'Edit Entry'}</h3>
+          <button onClick={onClose} className="text-slate-300 p-2">✕</button>
+        </div>
+
+        <fieldset disabled={isVoided} className="space-y-4 disabled:opacity-50">
+          <div>
+            <label className={labelClass}>Type</label>
+            <select value={type} onChange={e => setType(e.target.value as TransactionType)} className={fieldClass}>
+              {Object.values(TransactionType).map(t => <option key={t} value={t}>{t.replace('_', ' ')}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className={labelClass}>Amount</label>
+              <input type="number" inputMode="decimal" min="0" value={amount} onChange={e => setAmount(e.target.value)} className={fieldClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Currency</label>
+              <select value={txCurrency} onChange={e => setTxCurrency(e.target.value)} className={fieldClass}>
+                {[...new Set([txCurrency, ...SUPPORTED_CURRENCIES])].map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Category</label>
+            <input value={category} onChange={e => setCategory(e.target.value)} className={fieldClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Counterparty</label>
+            <input value={counterparty} onChange={e => setCounterparty(e.target.value)} className={fieldClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Note</label>
+            <input value={note} onChange={e => setNote(e.target.value)} className={fieldClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Date</label>
+            <input type="date" value={day} onChange={e => setDay(e.target.value)} className={fieldClass} />
+          </div>
+        </fieldset>
+
+        {transaction.revisions && transaction.revisions.length > 0 && (
+          <div className="space-y-2">
+            <h4 className={labelClass}>Revision History</h4>
+            {[...transaction.revisions].reverse().map(rev => (
+              <div key={rev.at} className="bg-slate-50 rounded-2xl px-5 py-3 text-xs">
+                <p className="font-black text-slate-900 uppercase tracking-widest text-[10px]">
+                  {rev.action === 'VOID' ? 'Voided' : 'Edited'} • {new Date(rev.at).toLocaleString()}
+                </p>
+                <p className="text-slate-400 font-medium">
+                  Was {rev.previous.type.replace('_', ' ')} of {formatMoney(rev.previous.amount, rev.previous.currency || currency)} • {rev.previous.category}
+                  {rev.previous.counterparty ? ` • ${rev.previous.counterparty}` : ''} • {new Date(rev.previous.date).toLocaleDateString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {transaction.syncStatus === 'failed' && (
+          <div className="bg-rose-50 rounded-2xl p-5 space-y-3">
+            <p className="text-sm font-bold text-rose-600">The server turned this entry down. Correct it and save to try again, or discard it.</p>
+            <button onClick={onDiscard} className="w-full bg-white text-rose-600 font-black py-4 rounded-2xl active:scale-95 transition-all">Discard</button>
+          </div>
+        )}
+
+        {!isVoided && (
+          <div className="grid grid-cols-2 gap-3">
+            <button onClick={onVoid} className="w-full bg-rose-50 text-rose-600 font-black py-5 rounded-2xl active:scale-95 transition-all">Void</button>
+            <button onClick={handleSave} disabled={!isValid} className="w-full bg-slate-900 text-white font-black py-5 rounded-2xl shadow-xl active:scale-95 transition-all disabled:opacity-50">Save</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,13 @@
+import { Category, ParseResult } from "../types";
+
+/**
+ * A backend that turns a message or a receipt photo into a ParseResult, and a voice note into text. Categories are the
+ * business's list to file entries under. Implementations may throw; `aiService` catches and falls back to the local parser.
+ */
+export interface AIProvider {
+  name: string;
+  isAvailable: () => boolean;
+  parseText: (text: string, categories: Category[]) => Promise<ParseResult>;
+  parseReceipt: (base64Data: string, mimeType: string, categories: Category[]) => Promise<ParseResult>;
+  transcribe: (base64Data: string, mimeType: string) => Promise<string>;
+}
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TransactionType } from '../types';
+import { AIProvider } from './aiProvider';
+import { parseInputText, parseReceiptImage, setAIProvider } from './aiService';
+import { DEMO_FIXTURES, createMockProvider } from './mockProvider';
+
+const failingProvider = (overrides: Partial<AIProvider> = {}): AIProvider => ({
+  ...createMockProvider(),
+  parseText: async () => { throw new Error('quota exceeded'); },
+  parseReceipt: async () => { throw new Error('quota exceeded'); },
+  ...overrides,
+});
+
+afterEach(() => {
+  setAIProvider(null);
+  vi.restoreAllMocks();
+});
+
+describe('parseInputText', () => {
+  it('returns the fixture for a known message, whatever its spacing and case', async () => {
+    setAIProvider(createMockProvider());
+    const text = '  Sold 3 sodas for 3000,  paid transport 2000 and Musa owes me 5000 ';
+    const result = await parseInputText(text);
+    expect(result).toEqual({ ...DEMO_FIXTURES.text['sold 3 sodas for 3000, paid transport 2000 and musa owes me 5000'], rawText: text });
+  });
+
+  it('answers from fixtures passed to the provider', async () => {
+    setAIProvider(createMockProvider({
+      ...DEMO_FIXTURES,
+      text: { 'cleared the float': { intent: 'RECORD', entries: [{ type: TransactionType.EXPENSE, amount: 700, category: 'Float' }] } },
+    }));
+    const result = await parseInputText('cleared the float');
+    expect(result.entries).toEqual([{ type: TransactionType.EXPENSE, amount: 700, category: 'Float' }]);
+  });
+
+  it('parses messages without a fixture with the local parser', async () => {
+    setAIProvider(createMockProvider());
+    const result = await parseInputText('paid rent 200k');
+    expect(result).toMatchObject({ intent: 'RECORD', entries: [{ type: TransactionType.EXPENSE, amount: 200000, category: 'Rent' }] });
+  });
+
+  it('falls back to the local parser when the provider is unavailable', async () => {
+    const parseText = vi.fn();
+    setAIProvider({ ...createMockProvider(), isAvailable: () => false, parseText });
+    const result = await parseInputText('Musa owes 1000');
+    expect(parseText).not.toHaveBeenCalled();
+    expect(result.entries).toMatchObject([{ type: TransactionType.DEBT, amount: 1000, counterparty: 'Musa' }]);
+  });
+
+  it('falls back to the local parser when the provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setAIProvider(failingProvider());
+    const result = await parseInputText('Musa paid 500');
+    expect(result.entries).toMatchObject([{ type: TransactionType.DEBT_PAYMENT, amount: 500, counterparty: 'Musa' }]);
+  });
+});
+
+describe('parseReceiptImage', () => {
+  it('returns the fixture receipt', async () => {
+    setAIProvider(createMockProvider());
+    const result = await parseReceiptImage('', 'image/jpeg');
+    expect(result).toMatchObject({ intent: 'RECORD', entries: DEMO_FIXTURES.receipt.entries, rawText: 'Receipt from City Wholesalers' });
+  });
+
+  it('gives up on the receipt when the provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setAIProvider(failingProvider());
+    expect((await parseReceiptImage('', 'image/jpeg')).intent).toBe('UNKNOWN');
+  });
+});
@@ -0,0 +1,69 @@
+import { Category, ParseResult } from "../types";
+import { parseLocally } from "../utils/localParser";
+import { readFileAsBase64 } from "../utils/files";
+import { VoiceCapture, canRecognizeSpeech, startRecording, startSpeechRecognition } from "../utils/voice";
+import { AIProvider } from "./aiProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+
+// Demo mode swaps Gemini for the fixture-driven mock. It is a build-time choice (AI_PROVIDER=mock)
+// only, since fixture answers are saved to the signed-in business's ledger like any other.
+export const isDemoMode = (): boolean => process.env.AI_PROVIDER === 'mock';
+
+let provider: AIProvider | null = null;
+
+export const getAIProvider = (): AIProvider => {
+  if (!provider) provider = isDemoMode() ? createMockProvider() : createGeminiProvider();
+  return provider;
+};
+
+// Lets tests and tools run the app against a provider of their choosing.
+export const setAIProvider = (next: AIProvider | null): void => {
+  provider = next;
+};
+
+/**
+ * Parses with the active provider when it can be reached; without an API key, offline, or on any
+ * error the local rule-based parser takes over so recording never stops.
+ */
+export const parseInputText = async (text: string, categories: Category[] = []): Promise<ParseResult> => {
+  const ai = getAIProvider();
+  if (!ai.isAvailable()) return parseLocally(text);
+
+  try {
+    return await ai.parseText(text, categories);
+  } catch (error) {
+    console.error("AI Parsing Error:", error);
+    return parseLocally(text);
+  }
+};
+
+export const parseReceiptImage = async (base64Data: string, mimeType: string, categories: Category[] = []): Promise<ParseResult> => {
+  try {
+    return await getAIProvider().parseReceipt(base64Data, mimeType, categories);
+  } catch (error) {
+    console.error("AI Receipt Error:", error);
+    return { intent: 'UNKNOWN', rawText: "Failed to scan receipt" };
+  }
+};
+
+/**
+ * Starts listening for a voice entry. The provider transcribes the recording when it can be
+ * reached, since it understands Luganda and mixed speech; otherwise the browser's own
+ * speech recognition is used where available.
+ */
+export const startVoiceInput = async (): Promise<VoiceCapture> => {
+  const ai = getAIProvider();
+  if (ai.isAvailable()) {
+    const recording = await startRecording();
+    return {
+      stop: async () => {
+        const audio = await recording.stop();
+        return ai.transcribe(await readFileAsBase64(audio), audio.type);
+      },
+      cancel: recording.cancel,
+    };
+  }
+  if (canRecognizeSpeech()) return startSpeechRecognition();
+  throw new Error("Voice input needs an internet connection on this device.");
+};
@@ -1,6 +1,9 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { ParseResult, TransactionType } from "../types";
+import { Category, ParsedEntry, ParseResult } from "../types";
+import { AIProvider } from "./aiProvider";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
 
 /**
  * Note: process.env.API_KEY is replaced at build time by Vite's 'define' config.
@@ -11,119 +14,266 @@ const getAI = () => {
   return new GoogleGenAI({ apiKey: process.env.API_KEY as string });
 };
 
-export const parseInputText = async (text: string): Promise<ParseResult> => {
-  try {
-    const ai = getAI();
-    
-    const systemInstruction = `
-      You are an intelligent ledger assistant for small business owners.
-      Convert natural language business activities into structured data.
-      
-      INTENTS:
-      - RECORD: For business transactions.
-      - QUERY: For looking up data ("Show sales", "How much today").
-      
-      TRANSACTION TYPES & RULES:
-      - INCOME: General sales.
-      - EXPENSE: Money spent.
-      - DEBT: Someone owes you ("Musa owes me 1000"). COUNTERPARTY must be the name.
-      - DEBT_PAYMENT: Someone pays back ("Musa paid 500"). COUNTERPARTY must be the name.
-      
-      When a person's name is mentioned in relation to money owed or paid back, extract that name into "counterparty".
-      
-      RESPONSE FORMAT: Valid JSON only.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: text,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            intent: { 
-              type: Type.STRING, 
-              description: "The user's intent: 'RECORD', 'QUERY', or 'UNKNOWN'."
-            },
-            type: { 
-              type: Type.STRING, 
-              description: "The transaction type: INCOME, EXPENSE, DEBT, or DEBT_PAYMENT."
-            },
-            amount: { 
-              type: Type.NUMBER, 
-              description: "The numeric value of the transaction."
-            },
-            category: { 
-              type: Type.STRING, 
-              description: "The business category (e.g., Stock, Rent, Sales)."
-            },
-            counterparty: { 
-              type: Type.STRING, 
-              description: "The name of the person involved."
-            },
-            queryRange: { 
-              type: Type.STRING, 
-              description: "Time range for queries: today, week, or month."
-            }
-          },
-          required: ["intent"],
-          propertyOrdering: ["intent", "type", "amount", "category", "counterparty", "queryRange"]
-        }
+const entrySchema = {
+  type: Type.OBJECT,
+  properties: {
+    type: {
+      type: Type.STRING,
+      description: "The transaction type: INCOME, EXPENSE, DEBT, DEBT_PAYMENT, CREDIT_PURCHASE, or PAYABLE_PAYMENT."
+    },
+    amount: {
+      type: Type.NUMBER,
+      description: "The numeric value of the transaction."
+    },
+    currency: {
+      type: Type.STRING,
+      description: "ISO 4217 code if a currency is stated (e.g. KES, USD, UGX)."
+    },
+    category: {
+      type: Type.STRING,
+      description: "One of the business categories listed in the instructions."
+    },
+    counterparty: {
+      type: Type.STRING,
+      description: "The name of the person involved."
+    },
+    items: {
+      type: Type.ARRAY,
+      description: "Goods bought or sold, if named.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING, description: "The product, singular (e.g. Sugar, Soda)." },
+          quantity: { type: Type.NUMBER },
+          unit: { type: Type.STRING, description: "e.g. bag, kg, crate, bottle." },
+          unitPrice: { type: Type.NUMBER, description: "Price per unit, if known." }
+        },
+        required: ["name", "quantity"],
+        propertyOrdering: ["name", "quantity", "unit", "unitPrice"]
       }
-    });
-
-    const parsed = JSON.parse(response.text || "{}");
-    return { ...parsed, rawText: text };
-  } catch (error) {
-    console.error("AI Parsing Error:", error);
-    return { intent: 'UNKNOWN', rawText: text };
-  }
+    },
+    date: {
+      type: Type.STRING,
+      description: "The day it happened (YYYY-MM-DD), only if it was not today."
+    }
+  },
+  required: ["type", "amount"],
+  propertyOrdering: ["type", "amount", "currency", "category", "counterparty", "items", "date"]
+};
+
+// Older single-entry responses put the transaction at the top level.
+const entriesOf = (parsed: ParseResult): ParsedEntry[] => {
+  if (parsed.entries?.length) return parsed.entries.filter(e => e.amount);
+  if (parsed.intent !== 'RECORD' || !parsed.amount) return [];
+  const { type, amount, currency, category, counterparty, date } = parsed;
+  return [{ type, amount, currency, category, counterparty, date }];
+};
+
+// The business's own categories, so entries are filed under names it already uses.
+const categoryRules = (categories: Category[]): string => {
+  if (categories.length === 0) return `- Use a short business category in English (e.g. Stock, Rent, Sales).`;
+  const names = (kind: Category['kind']) => categories.filter(c => c.kind === kind).map(c => c.name).join(', ');
+  const aliases = categories.flatMap(c => c.aliases.map(alias => `"${alias}" = ${c.name}`));
+  return [
+    `- Set "category" to one of this business's categories, spelled exactly as listed.`,
+    `  Income: ${names('income') || 'none'}.`,
+    `  Expense: ${names('expense') || 'none'}.`,
+    ...(aliases.length ? [`  Other names the business uses: ${aliases.join(', ')}.`] : []),
+    `- Only use a new category when none of them fits, as a short name in English.`
+  ].join('\n    ');
 };
 
-export const parseReceiptImage = async (base64Data: string, mimeType: string): Promise<ParseResult> => {
-  try {
-    const ai = getAI();
+const parseText = async (model: string, text: string, categories: Category[]): Promise<ParseResult> => {
+  const ai = getAI();
+  
+  const systemInstruction = `
+    You are an intelligent ledger assistant for small business owners.
+    Convert natural language business activities into structured data.
+    Today is ${new Date().toDateString()}.
+    
+    INTENTS:
+    - RECORD: For business transactions.
+    - RECURRING: For transactions that repeat on a schedule ("Pay rent 300k every month").
+    - QUERY: For looking up data ("Show sales", "How much today").
+    
+    TRANSACTION TYPES & RULES:
+    - INCOME: General sales.
+    - EXPENSE: Money spent.
+    - DEBT: Someone owes you ("Musa owes me 1000"). COUNTERPARTY must be the name.
+    - DEBT_PAYMENT: Someone pays back ("Musa paid 500"). COUNTERPARTY must be the name.
+    - CREDIT_PURCHASE: We owe a supplier ("I owe the wholesaler 50,000", "Took stock on credit from Kato 20k"). COUNTERPARTY must be the supplier.
+    - PAYABLE_PAYMENT: We pay a supplier back ("Paid the wholesaler 20,000 of what I owe"). COUNTERPARTY must be the supplier.
+    
+    RECORDING:
+    - Put every transaction in the message into "entries", one item each, in the order mentioned.
+      "Sold 3 sodas for 3000, paid transport 2000 and Musa owes me 5000" is three entries: INCOME 3000, EXPENSE 2000, DEBT 5000 from Musa.
+    - When goods are named with a quantity, list them in "items". "at 4000" or "4000 each" is the unit price and "amount" is the total:
+      "Sold 5 bags of sugar at 4000" is INCOME 20000, category Sales, items [{ name: Sugar, quantity: 5, unit: bag, unitPrice: 4000 }].
+      Buying stock is EXPENSE (or CREDIT_PURCHASE on credit) with category Stock and the items bought.
+    - When the message says when something happened ("yesterday", "last Friday", "on 3rd March", "jana"), set "date"
+      to that day as YYYY-MM-DD, counting back from today. A date applies to the entries after it until another is given.
+      "Yesterday I paid rent 300k" is EXPENSE 300000, category Rent, date = yesterday. Leave "date" out for today.
+    
+    CATEGORIES:
+    ${categoryRules(categories)}
+    
+    RECURRING:
+    - Instructions that repeat ("Pay rent 300k every month", "Juma's salary 150k monthly on the 28th", "Loan repayment 50k every Friday")
+      are intent RECURRING, not RECORD. Put the transaction in "entries" as the only item and set "schedule":
+      frequency "monthly" with "day" the day of the month, or "weekly" with "day" the weekday (0 = Sunday, 1 = Monday ... 6 = Saturday).
+      If no day is said, use today's.
     
-    const systemInstruction = `
-      Analyze the image of this receipt or invoice and extract details for a business ledger.
-      Default to EXPENSE unless it is clearly a sales receipt.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: {
-        parts: [
-          { inlineData: { data: base64Data, mimeType } },
-          { text: "Extract receipt details: type, amount, category, counterparty." }
-        ]
-      },
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            type: { type: Type.STRING },
-            amount: { type: Type.NUMBER },
-            category: { type: Type.STRING },
-            counterparty: { type: Type.STRING }
+    When a person's name is mentioned in relation to money owed or paid back, extract that name into "counterparty".
+    Decide the direction carefully: money owed TO the user is DEBT, money the user owes is CREDIT_PURCHASE.
+    If a currency is stated ("Ksh 500", "$20", "50 dollars"), put its ISO 4217 code in "currency". Otherwise leave it out.
+    
+    QUERIES:
+    - Set "type" to what is being asked about (e.g. EXPENSE for "How much did I spend"), "category" if one is named, and "counterparty" for questions about a person ("How much does Musa owe?").
+    - "queryRange" is one of: today, yesterday, week, last_week, month, last_month, year, all, custom.
+    - For a named month ("in March") set "queryMonth" to the month name, or YYYY-MM if a year is given.
+    - For explicit dates use queryRange "custom" with "queryStart" and "queryEnd" as YYYY-MM-DD.
+    
+    LANGUAGE:
+    - Messages may be in English, Luganda, Swahili, or a mix ("Ntunze soda 3 ku 3000", "Nimeuza sukari elfu tano", "Musa ambanja 5k").
+    - Interpret them the same way. Keep names as spoken and write categories in English.
+    - Amount idioms: Swahili "elfu" = 1,000, "laki" = 100,000, "milioni" = 1,000,000 ("elfu tano" = 5,000, "laki mbili" = 200,000).
+      Luganda "lukumi" = 1,000, "omutwalo"/"emitwalo" = 10,000 each ("emitwalo ebiri" = 20,000), "akakadde"/"obukadde" = 1,000,000 each.
+      Slang "k" or "thao" = thousand, "bob" = shillings.
+    - Luganda "ntunze" = I sold, "nsasudde" = I paid, "ambanja" = owes me. Swahili "nimeuza" = I sold, "nimelipa" = I paid, "namdai" = they owe me (DEBT), "ananidai" = I owe them (CREDIT_PURCHASE).
+    - Set "language" to the language of the message: en, lg, sw, or mixed.
+    
+    RESPONSE FORMAT: Valid JSON only.
+  `;
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: text,
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          intent: { 
+            type: Type.STRING, 
+            description: "The user's intent: 'RECORD', 'RECURRING', 'QUERY', or 'UNKNOWN'."
+          },
+          language: {
+            type: Type.STRING,
+            description: "Language of the message: en, lg (Luganda), sw (Swahili), or mixed."
           },
-          required: ["type", "amount", "category"],
-          propertyOrdering: ["type", "amount", "category", "counterparty"]
-        }
+          entries: {
+            type: Type.ARRAY,
+            description: "For RECORD: every transaction mentioned, one item each. For RECURRING: the repeated transaction.",
+            items: entrySchema
+          },
+          schedule: {
+            type: Type.OBJECT,
+            description: "For RECURRING: when the transaction repeats.",
+            properties: {
+              frequency: { type: Type.STRING, description: "weekly or monthly." },
+              day: { type: Type.NUMBER, description: "Weekday (0 = Sunday) for weekly, day of the month for monthly." }
+            },
+            required: ["frequency", "day"],
+            propertyOrdering: ["frequency", "day"]
+          },
+          type: { 
+            type: Type.STRING, 
+            description: "For QUERY: the transaction type being asked about."
+          },
+          category: { 
+            type: Type.STRING, 
+            description: "For QUERY: the category being asked about."
+          },
+          counterparty: { 
+            type: Type.STRING, 
+            description: "For QUERY: the person being asked about."
+          },
+          queryRange: { 
+            type: Type.STRING, 
+            description: "Time range for queries: today, yesterday, week, last_week, month, last_month, year, all, or custom."
+          },
+          queryStart: {
+            type: Type.STRING,
+            description: "Start date (YYYY-MM-DD) for a custom query range."
+          },
+          queryEnd: {
+            type: Type.STRING,
+            description: "End date (YYYY-MM-DD, inclusive) for a custom query range."
+          },
+          queryMonth: {
+            type: Type.STRING,
+            description: "A named month the query asks about, e.g. March or 2025-03."
+          }
+        },
+        required: ["intent"],
+        propertyOrdering: ["intent", "language", "entries", "schedule", "type", "category", "counterparty", "queryRange", "queryStart", "queryEnd", "queryMonth"]
       }
-    });
-
-    const parsed = JSON.parse(response.text || "{}");
-    return { 
-      intent: 'RECORD', 
-      ...parsed, 
-      rawText: `Receipt from ${parsed.counterparty || 'Unknown'}` 
-    };
-  } catch (error) {
-    console.error("AI Receipt Error:", error);
-    return { intent: 'UNKNOWN', rawText: "Failed to scan receipt" };
-  }
+    }
+  });
+
+  const parsed = JSON.parse(response.text || "{}");
+  return { ...parsed, entries: entriesOf(parsed), rawText: text };
 };
+
+const parseReceipt = async (model: string, base64Data: string, mimeType: string, categories: Category[]): Promise<ParseResult> => {
+  const ai = getAI();
+  
+  const systemInstruction = `
+    Analyze the image of this receipt or invoice and extract details for a business ledger.
+    Default to EXPENSE unless it is clearly a sales receipt.
+    Set "date" to the date printed on the receipt (YYYY-MM-DD) if it is not today. Today is ${new Date().toDateString()}.
+    ${categoryRules(categories)}
+  `;
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        { inlineData: { data: base64Data, mimeType } },
+        { text: "Extract receipt details: type, amount, currency, category, counterparty, date, and the line items with quantity and unit price." }
+      ]
+    },
+    config: {
+      systemInstruction,
+      responseMimeType: "application/json",
+      responseSchema: { ...entrySchema, required: ["type", "amount", "category"] }
+    }
+  });
+
+  const parsed = JSON.parse(response.text || "{}");
+  return { 
+    intent: 'RECORD', 
+    ...parsed, 
+    entries: [parsed],
+    rawText: `Receipt from ${parsed.counterparty || 'Unknown'}` 
+  };
+};
+
+const transcribe = async (model: string, base64Data: string, mimeType: string): Promise<string> => {
+  const ai = getAI();
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        { inlineData: { data: base64Data, mimeType } },
+        { text: "Transcribe this voice note from a shop owner exactly as spoken. It may be in English, Luganda, Swahili or a mix. Return only the transcript." }
+      ]
+    }
+  });
+
+  return (response.text || "").trim();
+};
+
+/**
+ * Gemini behind the provider interface. The model defaults to GEMINI_MODEL from the
+ * environment, then to DEFAULT_GEMINI_MODEL.
+ */
+export const createGeminiProvider = (model = process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL): AIProvider => ({
+  name: `Gemini (${model})`,
+  isAvailable: () => !!process.env.API_KEY && navigator.onLine,
+  parseText: (text, categories) => parseText(model, text, categories),
+  parseReceipt: (base64Data, mimeType, categories) => parseReceipt(model, base64Data, mimeType, categories),
+  transcribe: (base64Data, mimeType) => transcribe(model, base64Data, mimeType),
+});
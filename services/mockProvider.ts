@@ -0,0 +1,61 @@
+import { ParseResult, TransactionType } from "../types";
+import { parseLocally } from "../utils/localParser";
+import { AIProvider } from "./aiProvider";
+
+type Fixture = Omit<ParseResult, 'rawText'>;
+
+export interface MockFixtures {
+  text: Record<string, Fixture>; // Keyed by the message, compared case- and space-insensitively
+  receipt: Fixture;
+  transcript: string; // Returned for any voice note
+}
+
+// Canned answers for demo mode: a typical day at a small shop.
+export const DEMO_FIXTURES: MockFixtures = {
+  text: {
+    'sold 3 sodas for 3000, paid transport 2000 and musa owes me 5000': {
+      intent: 'RECORD',
+      entries: [
+        { type: TransactionType.INCOME, amount: 3000, category: 'Sales', items: [{ name: 'Soda', quantity: 3, unitPrice: 1000 }] },
+        { type: TransactionType.EXPENSE, amount: 2000, category: 'Transport' },
+        { type: TransactionType.DEBT, amount: 5000, category: 'Credit Sale', counterparty: 'Musa' },
+      ],
+    },
+    'how much did i make today?': { intent: 'QUERY', type: TransactionType.INCOME, queryRange: 'today' },
+    'how much does musa owe?': { intent: 'QUERY', counterparty: 'Musa' },
+  },
+  receipt: {
+    intent: 'RECORD',
+    entries: [{
+      type: TransactionType.EXPENSE,
+      amount: 45000,
+      category: 'Stock',
+      counterparty: 'City Wholesalers',
+      items: [{ name: 'Soda', quantity: 2, unit: 'crate', unitPrice: 22500 }],
+    }],
+  },
+  transcript: 'Sold 3 sodas for 3000, paid transport 2000 and Musa owes me 5000',
+};
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * A deterministic provider for tests and demo mode. Messages with a fixture get it back verbatim;
+ * anything else goes through the local rule-based parser, so the same input always gives the same result.
+ */
+export const createMockProvider = (fixtures: MockFixtures = DEMO_FIXTURES): AIProvider => {
+  const byText = new Map(Object.entries(fixtures.text).map(([text, fixture]) => [normalize(text), fixture]));
+  return {
+    name: 'Demo',
+    isAvailable: () => true,
+    parseText: async text => {
+      const fixture = byText.get(normalize(text));
+      return fixture ? { ...fixture, rawText: text } : parseLocally(text);
+    },
+    parseReceipt: async () => ({
+      ...fixtures.receipt,
+      rawText: `Receipt from ${fixtures.receipt.entries?.[0]?.counterparty || 'Unknown'}`,
+    }),
+    transcribe: async () => fixtures.transcript,
+  };
+};
@@ -0,0 +1,122 @@
+-- Invoices and payment receipts (see utils/invoices.ts), numbered per business by the server.
+-- Run after schema.sql, which creates member_role. Safe to run again after an update.
+
+create table if not exists invoices (
+  id uuid primary key,
+  business_id uuid not null references businesses (id) on delete cascade,
+  number integer not null,
+  counterparty text not null,
+  lines jsonb not null default '[]'::jsonb, -- InvoiceLine[], each naming the DEBT entry it bills
+  issued_at timestamptz not null default now(),
+  unique (business_id, number)
+);
+
+create table if not exists payment_receipts (
+  id uuid primary key,
+  business_id uuid not null references businesses (id) on delete cascade,
+  number integer not null,
+  counterparty text not null,
+  amount numeric not null,
+  paid_at timestamptz not null,
+  balance_after numeric not null,
+  issued_at timestamptz not null default now(),
+  unique (business_id, number)
+);
+
+-- The last number issued per business and kind. Only next_document_number touches it.
+create table if not exists document_counters (
+  business_id uuid not null references businesses (id) on delete cascade,
+  kind text not null check (kind in ('invoice', 'receipt')),
+  last_number integer not null,
+  primary key (business_id, kind)
+);
+
+-- Hands out the next invoice or receipt number (see allocateDocumentNumber in utils/storage.ts).
+-- The upsert takes a row lock, so devices issuing at the same moment get different numbers. A
+-- business's first number follows any documents issued before the counter existed.
+create or replace function next_document_number(p_business_id uuid, p_kind text)
+returns integer
+language plpgsql volatile security definer set search_path = public
+as $$
+declare
+  v_number integer;
+begin
+  if member_role(p_business_id) is distinct from 'owner' and member_role(p_business_id) is distinct from 'manager' then
+    raise exception 'Only the owner or a manager can issue invoices and receipts' using errcode = '42501';
+  end if;
+
+  insert into document_counters as c (business_id, kind, last_number)
+  values (
+    p_business_id,
+    p_kind,
+    coalesce(case p_kind
+      when 'invoice' then (select max(number) from invoices where business_id = p_business_id)
+      else (select max(number) from payment_receipts where business_id = p_business_id)
+    end, 0) + 1
+  )
+  on conflict (business_id, kind) do update set last_number = c.last_number + 1
+  returning last_number into v_number;
+
+  return v_number;
+end;
+$$;
+
+revoke execute on function next_document_number(uuid, text) from anon;
+
+-- Each DEBT entry is billed on one invoice at most. The lock keeps two invoices saved at the
+-- same moment from both passing the check.
+create or replace function check_invoice_lines()
+returns trigger
+language plpgsql
+as $$
+begin
+  perform pg_advisory_xact_lock(hashtext('invoices:' || new.business_id::text));
+  if exists (
+    select 1
+    from invoices i
+    cross join lateral jsonb_array_elements(i.lines) billed
+    join jsonb_array_elements(new.lines) line on line ->> 'transactionId' = billed ->> 'transactionId'
+    where i.business_id = new.business_id and i.id <> new.id
+  ) then
+    raise exception 'An entry on this invoice is already on another invoice' using errcode = '23505';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists invoices_check_lines on invoices;
+create trigger invoices_check_lines
+  before insert or update of lines on invoices
+  for each row execute function check_invoice_lines();
+
+alter table invoices enable row level security;
+alter table payment_receipts enable row level security;
+alter table document_counters enable row level security;
+
+-- Invoicing is for owners and managers, like the rest of the customer accounts. Issued documents
+-- are never deleted.
+drop policy if exists invoices_select on invoices;
+create policy invoices_select on invoices for select
+  using (member_role(business_id) in ('owner', 'manager'));
+
+drop policy if exists invoices_insert on invoices;
+create policy invoices_insert on invoices for insert
+  with check (member_role(business_id) in ('owner', 'manager'));
+
+drop policy if exists invoices_update on invoices;
+create policy invoices_update on invoices for update
+  using (member_role(business_id) in ('owner', 'manager'))
+  with check (member_role(business_id) in ('owner', 'manager'));
+
+drop policy if exists payment_receipts_select on payment_receipts;
+create policy payment_receipts_select on payment_receipts for select
+  using (member_role(business_id) in ('owner', 'manager'));
+
+drop policy if exists payment_receipts_insert on payment_receipts;
+create policy payment_receipts_insert on payment_receipts for insert
+  with check (member_role(business_id) in ('owner', 'manager'));
+
+drop policy if exists payment_receipts_update on payment_receipts;
+create policy payment_receipts_update on payment_receipts for update
+  using (member_role(business_id) in ('owner', 'manager'))
+  with check (member_role(business_id) in ('owner', 'manager'));
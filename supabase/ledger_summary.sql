@@ -0,0 +1,73 @@
+-- Day totals for entries older than the window the app loads one by one (see getLedgerSummary
+-- in utils/storage.ts). One row per local day, type, currency, category and counterparty, with
+-- line items summed per product.
+create or replace function ledger_summary(
+  p_business_id uuid,
+  p_before timestamptz,
+  p_time_zone text,
+  p_recorded_by uuid default null
+)
+returns table (
+  day date,
+  type text,
+  currency text,
+  category text,
+  counterparty text,
+  amount numeric,
+  entry_count bigint,
+  last_date timestamptz,
+  items jsonb
+)
+language sql stable security invoker
+as $$
+  with entries as (
+    select
+      t.*,
+      (t.date at time zone p_time_zone)::date as local_day,
+      lower(regexp_replace(trim(coalesce(t.counterparty, '')), '\s+', ' ', 'g')) as counterparty_key
+    from transactions t
+    where (t.business_id = p_business_id or (t.business_id is null and t.user_id = p_business_id))
+      and (p_recorded_by is null or t.recorded_by = p_recorded_by)
+      and t.voided_at is null
+      and t.date < p_before
+  ),
+  line_items as (
+    select
+      e.local_day, e.type, e.currency, e.category, e.counterparty_key,
+      max(item->>'productId') as product_id,
+      max(item->>'name') as name,
+      max(item->>'unit') as unit,
+      sum((item->>'quantity')::numeric) as quantity,
+      sum((item->>'quantity')::numeric * (item->>'unitPrice')::numeric) as value
+    from entries e
+    cross join jsonb_array_elements(coalesce(e.items, '[]'::jsonb)) item
+    group by e.local_day, e.type, e.currency, e.category, e.counterparty_key,
+      coalesce(item->>'productId', lower(item->>'name'))
+  )
+  select
+    e.local_day,
+    e.type,
+    e.currency,
+    e.category,
+    max(e.counterparty),
+    sum(e.amount),
+    count(*),
+    max(e.date),
+    (
+      select jsonb_agg(jsonb_build_object(
+        'productId', i.product_id,
+        'name', i.name,
+        'unit', i.unit,
+        'quantity', i.quantity,
+        'unitPrice', i.value / nullif(i.quantity, 0)
+      ))
+      from line_items i
+      where i.local_day = e.local_day
+        and i.type = e.type
+        and i.currency is not distinct from e.currency
+        and i.category is not distinct from e.category
+        and i.counterparty_key = e.counterparty_key
+    )
+  from entries e
+  group by e.local_day, e.type, e.currency, e.category, e.counterparty_key;
+$$;
@@ -0,0 +1,36 @@
+-- Moves a business's entries from some category spellings to another category (see
+-- recategorizeTransactions in utils/storage.ts). Spellings are compared trimmed and lower-case.
+-- Each moved entry gets an EDIT revision with its previous values, like an edit in the app.
+create or replace function recategorize_transactions(
+  p_business_id uuid,
+  p_from text[],
+  p_to text
+)
+returns integer
+language sql volatile security invoker
+as $$
+  with moved as (
+    update transactions t
+    set
+      category = p_to,
+      revisions = coalesce(t.revisions, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+        'action', 'EDIT',
+        'at', now(),
+        'previous', jsonb_strip_nulls(jsonb_build_object(
+          'type', t.type,
+          'amount', t.amount,
+          'currency', t.currency,
+          'category', t.category,
+          'counterparty', t.counterparty,
+          'note', t.note,
+          'date', t.date
+        ))
+      )),
+      updated_at = now()
+    where (t.business_id = p_business_id or (t.business_id is null and t.user_id = p_business_id))
+      and lower(trim(coalesce(t.category, 'General'))) = any(p_from)
+      and t.category is distinct from p_to
+    returning 1
+  )
+  select count(*)::integer from moved;
+$$;
@@ -0,0 +1,292 @@
+-- Tables the app reads and writes, and the row-level security that keeps each business's data to
+-- its team. Roles are enforced here, not only by the tabs the app shows (see utils/permissions.ts):
+-- owners and managers work on the whole ledger, attendants record entries and see their own.
+-- Safe to run again after an update.
+
+create table if not exists businesses (
+  id uuid primary key, -- The owner's user id
+  name text not null,
+  currency text not null,
+  owner_id uuid not null references auth.users (id)
+);
+
+create table if not exists memberships (
+  id uuid primary key default gen_random_uuid(),
+  business_id uuid not null references businesses (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete cascade, -- Set once the invitation is accepted
+  email text not null,
+  role text not null check (role in ('owner', 'manager', 'attendant')),
+  status text not null check (status in ('invited', 'active')),
+  created_at timestamptz not null default now(),
+  unique (business_id, email)
+);
+
+create table if not exists transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id),
+  type text not null,
+  amount numeric not null,
+  category text,
+  counterparty text,
+  note text,
+  date timestamptz not null default now()
+);
+
+-- Columns added since the first release.
+alter table transactions
+  add column if not exists business_id uuid references businesses (id),
+  add column if not exists recorded_by uuid references auth.users (id),
+  add column if not exists updated_at timestamptz,
+  add column if not exists receipt_path text,
+  add column if not exists voided_at timestamptz,
+  add column if not exists revisions jsonb,
+  add column if not exists currency text,
+  add column if not exists corrections jsonb,
+  add column if not exists items jsonb;
+
+-- Rows from before team accounts have no business_id; they belong to the business of the owner
+-- in user_id. Filling it in lets the realtime filter on business_id (see subscribeToLedger)
+-- deliver changes to them too.
+update transactions t
+set business_id = t.user_id
+where t.business_id is null
+  and exists (select 1 from businesses b where b.id = t.user_id);
+
+-- updated_at is the server's time of the last write: edits are only applied to the copy they
+-- were made on (see pushQueuedTransaction in utils/storage.ts), and changes from other devices are
+-- ordered by it, so it can't come from a device's clock.
+create or replace function touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists transactions_touch_updated_at on transactions;
+create trigger transactions_touch_updated_at
+  before insert or update on transactions
+  for each row execute function touch_updated_at();
+
+create index if not exists transactions_business_date on transactions (business_id, date desc, id desc);
+
+create table if not exists products (
+  id uuid primary key,
+  business_id uuid not null references businesses (id) on delete cascade,
+  name text not null,
+  unit text not null,
+  cost_price numeric not null default 0,
+  sale_price numeric not null default 0,
+  quantity numeric not null default 0,
+  counted_at timestamptz,
+  low_stock_at numeric not null default 0
+);
+
+create table if not exists recurring_templates (
+  id uuid primary key,
+  business_id uuid not null references businesses (id) on delete cascade,
+  type text not null,
+  amount numeric not null,
+  currency text,
+  category text not null,
+  counterparty text,
+  note text,
+  schedule jsonb not null,
+  starts_on timestamptz not null,
+  handled_through timestamptz,
+  active boolean not null default true
+);
+
+create table if not exists categories (
+  id uuid primary key,
+  business_id uuid not null references businesses (id) on delete cascade,
+  name text not null,
+  kind text,
+  icon text,
+  color text,
+  aliases jsonb,
+  monthly_budget numeric
+);
+
+-- The caller's role in a business, or null when they are not an active member. Security definer
+-- so policies on memberships can use it without recursing into themselves.
+create or replace function member_role(p_business_id uuid)
+returns text
+language sql stable security definer set search_path = public
+as $$
+  select role from memberships
+  where business_id = p_business_id and user_id = auth.uid() and status = 'active';
+$$;
+
+-- Accepts the oldest pending invitation to the signed-in user's email (see getUserProfile in
+-- utils/storage.ts). Invitees can't update memberships themselves, so this runs as definer and
+-- only ever matches the email the session was issued for.
+create or replace function accept_invitation()
+returns setof memberships
+language sql volatile security definer set search_path = public
+as $$
+  update memberships
+  set user_id = auth.uid(), status = 'active'
+  where id = (
+    select id from memberships
+    where email = lower(auth.email()) and status = 'invited'
+    order by created_at
+    limit 1
+  )
+  returning *;
+$$;
+
+revoke execute on function accept_invitation() from anon;
+
+alter table businesses enable row level security;
+alter table memberships enable row level security;
+alter table transactions enable row level security;
+alter table products enable row level security;
+alter table recurring_templates enable row level security;
+alter table categories enable row level security;
+
+drop policy if exists businesses_select on businesses;
+create policy businesses_select on businesses for select
+  using (member_role(id) is not null);
+
+-- A new sign-up sets up their own business, whose id is their user id.
+drop policy if exists businesses_insert on businesses;
+create policy businesses_insert on businesses for insert
+  with check (id = auth.uid() and owner_id = auth.uid());
+
+drop policy if exists businesses_update on businesses;
+create policy businesses_update on businesses for update
+  using (member_role(id) in ('owner', 'manager'))
+  with check (owner_id = id);
+
+drop policy if exists memberships_select on memberships;
+create policy memberships_select on memberships for select
+  using (user_id = auth.uid() or member_role(business_id) in ('owner', 'manager'));
+
+-- Owners invite; the only active row anyone can add is their own owner row in their own business.
+drop policy if exists memberships_insert on memberships;
+create policy memberships_insert on memberships for insert
+  with check (
+    (business_id = auth.uid() and user_id = auth.uid() and role = 'owner' and status = 'active')
+    or (member_role(business_id) = 'owner' and user_id is null and status = 'invited')
+  );
+
+drop policy if exists memberships_update on memberships;
+create policy memberships_update on memberships for update
+  using (member_role(business_id) = 'owner')
+  with check (member_role(business_id) = 'owner');
+
+drop policy if exists memberships_delete on memberships;
+create policy memberships_delete on memberships for delete
+  using (member_role(business_id) = 'owner' and user_id is distinct from auth.uid());
+
+drop policy if exists transactions_select on transactions;
+create policy transactions_select on transactions for select
+  using (
+    member_role(coalesce(business_id, user_id)) in ('owner', 'manager')
+    or (member_role(coalesce(business_id, user_id)) = 'attendant' and recorded_by = auth.uid())
+  );
+
+-- Everyone records under their own name; nobody records into another business.
+drop policy if exists transactions_insert on transactions;
+create policy transactions_insert on transactions for insert
+  with check (
+    member_role(business_id) is not null
+    and user_id = auth.uid()
+    and recorded_by = auth.uid()
+  );
+
+-- Edits and voids are for owners and managers. Entries are never deleted.
+drop policy if exists transactions_update on transactions;
+create policy transactions_update on transactions for update
+  using (member_role(coalesce(business_id, user_id)) in ('owner', 'manager'))
+  with check (member_role(coalesce(business_id, user_id)) in ('owner', 'manager'));
+
+-- Recording a sale can add a product or update its price, so every member may write products;
+-- removing them is for owners and managers.
+drop policy if exists products_select on products;
+create policy products_select on products for select
+  using (member_role(business_id) is not null);
+
+drop policy if exists products_insert on products;
+create policy products_insert on products for insert
+  with check (member_role(business_id) is not null);
+
+drop policy if exists products_update on products;
+create policy products_update on products for update
+  using (member_role(business_id) is not null)
+  with check (member_role(business_id) is not null);
+
+drop policy if exists products_delete on products;
+create policy products_delete on products for delete
+  using (member_role(business_id) in ('owner', 'manager'));
+
+-- Recording can add a category; changing or removing one is for owners and managers.
+drop policy if exists categories_select on categories;
+create policy categories_select on categories for select
+  using (member_role(business_id) is not null);
+
+drop policy if exists categories_insert on categories;
+create policy categories_insert on categories for insert
+  with check (member_role(business_id) is not null);
+
+drop policy if exists categories_update on categories;
+create policy categories_update on categories for update
+  using (member_role(business_id) in ('owner', 'manager'))
+  with check (member_role(business_id) in ('owner', 'manager'));
+
+drop policy if exists categories_delete on categories;
+create policy categories_delete on categories for delete
+  using (member_role(business_id) in ('owner', 'manager'));
+
+drop policy if exists recurring_templates_all on recurring_templates;
+create policy recurring_templates_all on recurring_templates for all
+  using (member_role(business_id) in ('owner', 'manager'))
+  with check (member_role(business_id) in ('owner', 'manager'));
+
+-- Receipt photos, stored as <business id>/<file>. Members upload into their own business's
+-- folder; an image can be read by whoever can read the entry it belongs to. Paths from before
+-- team accounts start with the recorder's user id instead.
+insert into storage.buckets (id, name, public)
+values ('receipts', 'receipts', false)
+on conflict (id) do nothing;
+
+drop policy if exists receipts_insert on storage.objects;
+create policy receipts_insert on storage.objects for insert
+  with check (
+    bucket_id = 'receipts'
+    and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or exists (
+        select 1 from memberships m
+        where m.business_id::text = (storage.foldername(name))[1] and m.user_id = auth.uid() and m.status = 'active'
+      )
+    )
+  );
+
+-- Uploads are retried with upsert, which needs to update an image already sent.
+drop policy if exists receipts_update on storage.objects;
+create policy receipts_update on storage.objects for update
+  using (bucket_id = 'receipts' and owner_id = auth.uid()::text)
+  with check (bucket_id = 'receipts' and owner_id = auth.uid()::text);
+
+drop policy if exists receipts_select on storage.objects;
+create policy receipts_select on storage.objects for select
+  using (
+    bucket_id = 'receipts'
+    and (owner_id = auth.uid()::text or exists (select 1 from transactions t where t.receipt_path = storage.objects.name))
+  );
+
+-- Streams ledger changes to the other devices of the business (see subscribeToLedger).
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'transactions'
+  ) then
+    alter publication supabase_realtime add table transactions;
+  end if;
+end;
+$$;
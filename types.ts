@@ -3,39 +3,273 @@ export enum TransactionType {
   INCOME = 'INCOME',
   EXPENSE = 'EXPENSE',
   DEBT = 'DEBT',
-  DEBT_PAYMENT = 'DEBT_PAYMENT'
+  DEBT_PAYMENT = 'DEBT_PAYMENT',
+  CREDIT_PURCHASE = 'CREDIT_PURCHASE',
+  PAYABLE_PAYMENT = 'PAYABLE_PAYMENT'
 }
 
+export type SyncState = 'pending' | 'failed';
+
 export interface Transaction {
   id: string;
   type: TransactionType;
   amount: number;
+  currency?: string; // ISO 4217 code; unset means the business currency
   category: string;
   counterparty?: string;
   note?: string;
+  items?: LineItem[]; // Stock bought (EXPENSE, CREDIT_PURCHASE) or sold (INCOME, DEBT)
   date: string; // ISO string
+  receiptPath?: string; // Path in the 'receipts' storage bucket
+  voidedAt?: string; // Voided entries stay in the ledger but count towards nothing
+  revisions?: TransactionRevision[];
+  recordedBy?: string; // User id of the staff member who recorded it
+  corrections?: CorrectableField[]; // Set on parsed entries only: the fields the user changed before saving, often none
+  updatedAt?: string; // ISO string of the last write, stamped by Supabase; edits are checked against it
+  entryCount?: number; // Set on day totals that stand in for entries older than the loaded window
+  syncStatus?: SyncState; // Unset once the row is confirmed by Supabase
+}
+
+export interface LineItem {
+  productId?: string; // Unset until matched to a product
+  name: string;
+  quantity: number;
+  unit?: string;
+  unitPrice?: number; // In the transaction's currency
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  unit: string;
+  costPrice: number; // In the business currency
+  salePrice: number;
+  quantity: number; // Stock counted at `countedAt`, or opening stock if never counted
+  countedAt?: string; // ISO string; line items dated before it are already in `quantity`
+  lowStockAt: number;
+}
+
+export interface StockLevel {
+  product: Product;
+  onHand: number;
+  sold: number;
+  revenue: number;
+  margin: number; // Revenue less cost of the units sold
+}
+
+export type CategoryKind = 'income' | 'expense';
+
+// One entry in the business's category list. Entries are saved under `name`; aliases are other
+// spellings that mean the same category.
+export interface Category {
+  id: string;
+  name: string;
+  kind: CategoryKind;
+  icon: string; // An emoji
+  color: string; // Hex, e.g. #f43f5e
+  aliases: string[];
+  monthlyBudget?: number; // In the business currency; EXPENSE entries count towards it
+}
+
+export interface BudgetProgress {
+  category: Category;
+  spent: number; // This month so far, in the business currency
+}
+
+// Saving an EXPENSE entry would take its category past the monthly budget.
+export interface BudgetAlert {
+  category: string;
+  budget: number;
+  spent: number; // For the month including the entry, in the business currency
+}
+
+export type TransactionSnapshot = Pick<Transaction, 'type' | 'amount' | 'currency' | 'category' | 'counterparty' | 'note' | 'date'>;
+
+export type TransactionChanges = Partial<TransactionSnapshot>;
+
+export interface TransactionRevision {
+  action: 'EDIT' | 'VOID';
+  at: string; // ISO string
+  previous: TransactionSnapshot;
+}
+
+// Receivables are owed to the business (DEBT), payables are owed by it (CREDIT_PURCHASE).
+export type DebtKind = 'receivable' | 'payable';
+
+export interface DebtBalance {
+  key: string; // Normalised name, see counterpartyKey
+  kind: DebtKind;
+  name: string; // Most recent spelling
+  balance: number;
+}
+
+export interface StatementLine {
+  transaction: Transaction;
+  balance: number; // Running balance after this entry
+}
+
+export type InvoiceStatus = 'open' | 'partially_paid' | 'paid';
+
+export interface InvoiceLine {
+  transactionId?: string; // The DEBT entry billed; missing on invoices issued before it was kept
+  date: string; // ISO string of the DEBT entry billed
+  description: string;
+  amount: number; // In the business currency
+}
+
+// A numbered bill for one or more DEBT entries of one customer.
+export interface Invoice {
+  id: string;
+  number: number; // Per business, allocated by the server, shown as INV-0001
+  counterparty: string;
+  lines: InvoiceLine[];
+  issuedAt: string; // ISO string
+}
+
+// An invoice with what the customer has paid towards it, see summarizeInvoice.
+export interface InvoiceSummary {
+  invoice: Invoice;
+  total: number;
+  paid: number;
+  status: InvoiceStatus;
+}
+
+// Proof of a DEBT_PAYMENT, numbered separately from invoices (RCT-0001).
+export interface PaymentReceipt {
+  id: string;
+  number: number;
+  counterparty: string;
+  amount: number; // In the business currency
+  paidAt: string; // ISO string
+  balanceAfter: number; // What the customer still owed after paying
+  issuedAt: string; // ISO string
 }
 
+// An invoice or receipt laid out for PDF, image and message export.
+export interface BusinessDocument {
+  title: 'Invoice' | 'Receipt';
+  number: string;
+  businessName: string;
+  currency: string;
+  counterparty: string;
+  issuedAt: string; // ISO string
+  lines: { date: string; description: string; amount: number }[];
+  totals: { label: string; amount: number }[]; // The last one is the headline figure
+  status?: string;
+}
+
+// Narrows the History tab, e.g. after tapping into a dashboard chart.
+export interface HistoryFilter {
+  label: string;
+  category?: string;
+  counterparty?: string;
+  recordedBy?: string;
+  types?: TransactionType[];
+  from?: string; // ISO, inclusive
+  to?: string; // ISO, exclusive
+}
+
+export interface SyncSummary {
+  pending: number;
+  failed: number;
+}
+
+// Owners manage the team; managers run the books; attendants only record and see their own entries.
+export type Role = 'owner' | 'manager' | 'attendant';
+
+export type AppTab = 'dashboard' | 'history' | 'record' | 'debts' | 'inventory' | 'settings';
+
+export interface Member {
+  id: string;
+  businessId: string;
+  userId?: string; // Set once the invitation is accepted
+  email: string;
+  role: Role;
+  status: 'invited' | 'active';
+}
+
+// The signed-in user together with the business they work in.
 export interface User {
   id: string;
   email: string;
+  businessId: string;
+  role: Role;
   businessName: string;
   currency: string;
   picture?: string;
 }
 
-export interface ParseResult {
-  intent: 'RECORD' | 'QUERY' | 'UNKNOWN';
+// One transaction pulled out of a message or receipt.
+export interface ParsedEntry {
   type?: TransactionType;
   amount?: number;
+  currency?: string;
   category?: string;
   counterparty?: string;
-  queryRange?: 'today' | 'week' | 'month';
+  items?: LineItem[];
+  date?: string; // YYYY-MM-DD when the message says the entry happened on another day
+}
+
+// Fields of a parsed entry the user can correct on the confirmation card.
+export type CorrectableField = 'type' | 'amount' | 'currency' | 'category' | 'counterparty' | 'date';
+
+// A parsed entry in the review list; only confirmed ones are saved.
+export interface PendingEntry extends ParsedEntry {
+  key: string;
+  confirmed: boolean;
+  note?: string;
+  date: string; // ISO string, defaults to when the entry was parsed
+  parsed: ParsedEntry & { date: string }; // As the parser proposed it
+}
+
+export interface ParseResult extends ParsedEntry {
+  intent: 'RECORD' | 'RECURRING' | 'QUERY' | 'UNKNOWN';
+  entries?: ParsedEntry[]; // RECORD: every transaction mentioned, in order; RECURRING: the repeated one
+  schedule?: Schedule; // RECURRING
+  language?: string; // Detected language of the message: en, lg, sw or mixed
+  queryRange?: QueryRange;
+  queryStart?: string; // YYYY-MM-DD, used with queryRange 'custom'
+  queryEnd?: string; // YYYY-MM-DD, inclusive
+  queryMonth?: string; // Month name or YYYY-MM
   rawText: string;
 }
 
+export interface Schedule {
+  frequency: 'weekly' | 'monthly';
+  day: number; // Weekday (0 = Sunday) or day of the month; short months use their last day
+}
+
+export interface RecurringTemplate {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  currency?: string;
+  category: string;
+  counterparty?: string;
+  note?: string;
+  schedule: Schedule;
+  startsOn: string; // ISO string; the first occurrence is on or after this day
+  handledThrough?: string; // ISO string; occurrences up to this day were recorded or skipped
+  active: boolean; // Stopped templates are kept for the record but fall due no more
+}
+
+export interface DueEntry {
+  key: string;
+  template: RecurringTemplate;
+  dueDate: string; // ISO string
+}
+
+export type QueryRange = 'today' | 'yesterday' | 'week' | 'last_week' | 'month' | 'last_month' | 'year' | 'all' | 'custom';
+
+export interface QueryAnswer {
+  question: string;
+  answer: string;
+  matches: Transaction[];
+}
+
 export interface AppState {
   user: User | null;
-  transactions: Transaction[];
+  transactions: Transaction[]; // Entries since `ledgerSince`, then day totals for everything older
+  ledgerSince?: string; // ISO string
   isLoading: boolean;
 }
@@ -0,0 +1,58 @@
+import { Transaction } from "../types";
+import { DateRange, addDays, addMonths, formatRangeLabel, isInRange, startOfDay, startOfMonth, startOfWeek } from './dates';
+import { totalInflow, totalOutflow } from './ledger';
+
+export interface FlowBucket {
+  range: DateRange;
+  inflow: number;
+  outflow: number;
+}
+
+export interface ProfitBucket {
+  range: DateRange;
+  shortLabel: string;
+  profit: number;
+}
+
+export type TrendInterval = 'week' | 'month';
+
+const bucket = (transactions: Transaction[], range: DateRange): Transaction[] =>
+  transactions.filter(t => isInRange(t.date, range));
+
+/**
+ * Inflow and outflow per calendar day, oldest first, ending today.
+ */
+export const dailyFlows = (transactions: Transaction[], days = 30, now = new Date()): FlowBucket[] => {
+  const first = addDays(startOfDay(now), -(days - 1));
+  return Array.from({ length: days }, (_, i) => {
+    const start = addDays(first, i);
+    const range = { start, end: addDays(start, 1), label: formatRangeLabel(start, addDays(start, 1)) };
+    const txs = bucket(transactions, range);
+    return { range, inflow: totalInflow(txs), outflow: totalOutflow(txs) };
+  });
+};
+
+/**
+ * Net cash (inflow minus outflow) per week or month, oldest first, ending with the current one.
+ */
+export const profitTrend = (
+  transactions: Transaction[],
+  interval: TrendInterval,
+  count: number,
+  weekStartsOn = 1,
+  now = new Date()
+): ProfitBucket[] => Array.from({ length: count }, (_, i) => {
+  const back = count - 1 - i;
+  const start = interval === 'week'
+    ? addDays(startOfWeek(now, weekStartsOn), -7 * back)
+    : addMonths(startOfMonth(now), -back);
+  const end = interval === 'week' ? addDays(start, 7) : addMonths(start, 1);
+  const txs = bucket(transactions, { start, end, label: '' });
+  return {
+    range: { start, end, label: formatRangeLabel(start, end) },
+    shortLabel: interval === 'week'
+      ? start.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })
+      : start.toLocaleDateString('en-GB', { month: 'short' }),
+    profit: totalInflow(txs) - totalOutflow(txs),
+  };
+});
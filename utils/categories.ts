@@ -0,0 +1,156 @@
+import { BudgetAlert, BudgetProgress, Category, CategoryKind, PendingEntry, Transaction, TransactionType } from "../types";
+import { addMonths, startOfMonth } from "./dates";
+
+export const DEFAULT_CATEGORIES: Pick<Category, 'name' | 'kind' | 'icon' | 'color'>[] = [
+  { name: 'Sales', kind: 'income', icon: '💰', color: '#10b981' },
+  { name: 'Credit Sale', kind: 'income', icon: '🧾', color: '#f59e0b' },
+  { name: 'Debt Payment', kind: 'income', icon: '🤝', color: '#14b8a6' },
+  { name: 'Settlement', kind: 'income', icon: '✅', color: '#0ea5e9' },
+  { name: 'Stock', kind: 'expense', icon: '📦', color: '#6366f1' },
+  { name: 'Rent', kind: 'expense', icon: '🏠', color: '#f43f5e' },
+  { name: 'Transport', kind: 'expense', icon: '🚚', color: '#f97316' },
+  { name: 'Salaries', kind: 'expense', icon: '👥', color: '#8b5cf6' },
+  { name: 'Utilities', kind: 'expense', icon: '💡', color: '#eab308' },
+  { name: 'Airtime', kind: 'expense', icon: '📱', color: '#06b6d4' },
+  { name: 'Food', kind: 'expense', icon: '🍲', color: '#84cc16' },
+  { name: 'Repairs', kind: 'expense', icon: '🔧', color: '#78716c' },
+  { name: 'Supplier Payment', kind: 'expense', icon: '🏭', color: '#a855f7' },
+  { name: 'General', kind: 'expense', icon: '🏷️', color: '#64748b' }
+];
+
+// Words that describe a category without changing it: "transport fare" is still Transport.
+const QUALIFIERS = new Set(['fare', 'fares', 'cost', 'costs', 'expense', 'expenses', 'fee', 'fees', 'bill', 'bills', 'charge', 'charges', 'money']);
+
+const singular = (word: string) =>
+  word.length > 4 && word.endsWith('ies') ? `${word.slice(0, -3)}y`
+    : word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1)
+      : word;
+
+/**
+ * Compares category spellings: case, punctuation, plurals and qualifiers like "fare" or "costs"
+ * are ignored, so "Transport", "transport fare" and "TRANSPORT COSTS" share a key.
+ */
+export const categoryKey = (name: string): string => {
+  const words = name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const kept = words.filter(word => !QUALIFIERS.has(word));
+  return (kept.length > 0 ? kept : words).map(singular).join(' ');
+};
+
+const titleCase = (name: string) =>
+  name.trim().replace(/\s+/g, ' ').replace(/(^|\s)\S/g, letter => letter.toUpperCase());
+
+export const findCategory = (name: string, categories: Category[]): Category | undefined => {
+  const key = categoryKey(name);
+  return categories.find(c => categoryKey(c.name) === key || c.aliases.some(alias => categoryKey(alias) === key));
+};
+
+/**
+ * The managed spelling of a category, or the name tidied up when it is not in the list yet.
+ */
+export const normalizeCategory = (name: string | undefined, categories: Category[]): string => {
+  if (!name?.trim()) return 'General';
+  return findCategory(name, categories)?.name || titleCase(name);
+};
+
+// Entries of these types are money in, so a category first seen on one is an income category.
+const INCOME_TYPES = [TransactionType.INCOME, TransactionType.DEBT, TransactionType.DEBT_PAYMENT];
+
+export const kindFor = (type?: TransactionType): CategoryKind =>
+  type && INCOME_TYPES.includes(type) ? 'income' : 'expense';
+
+export const newCategory = (name: string, kind: CategoryKind = 'expense'): Category => ({
+  id: crypto.randomUUID(),
+  name: titleCase(name),
+  kind,
+  icon: '🏷️',
+  color: '#64748b',
+  aliases: []
+});
+
+export const defaultCategories = (): Category[] =>
+  DEFAULT_CATEGORIES.map(category => ({ ...newCategory(category.name), ...category }));
+
+/**
+ * Categories for the entries whose category matches nothing in the list, one per distinct name.
+ */
+export const missingCategories = (entries: Pick<Transaction, 'type' | 'category'>[], categories: Category[]): Category[] =>
+  entries.reduce<Category[]>((added, { type, category }) =>
+    findCategory(category, [...categories, ...added]) ? added : [...added, newCategory(category, kindFor(type))], []);
+
+/**
+ * Every spelling in the ledger that belongs to `category`, trimmed and lower-cased, for
+ * rewriting those entries under another name. Day totals cover the older history.
+ */
+export const categorySpellings = (category: Category, transactions: Transaction[]): string[] => {
+  const spellings = new Set([category.name, ...category.aliases].map(name => name.trim().toLowerCase()));
+  transactions
+    .filter(tx => findCategory(tx.category || 'General', [category]))
+    .forEach(tx => spellings.add((tx.category || 'General').trim().toLowerCase()));
+  return [...spellings];
+};
+
+/**
+ * `source` folded into `target`: its names become aliases of the target and its budget is kept
+ * when the target has none.
+ */
+export const mergeCategories = (source: Category, target: Category): Category => ({
+  ...target,
+  aliases: [...new Set([...target.aliases, source.name, ...source.aliases])]
+    .filter(alias => categoryKey(alias) !== categoryKey(target.name)),
+  monthlyBudget: target.monthlyBudget ?? source.monthlyBudget
+});
+
+const monthKey = (iso: string) => startOfMonth(new Date(iso)).toISOString();
+
+/**
+ * EXPENSE totals per managed category name for the month containing `date`. Expects amounts
+ * already in the business currency.
+ */
+export const spendByCategory = (transactions: Transaction[], categories: Category[], date = new Date()): Map<string, number> => {
+  const start = startOfMonth(date);
+  const end = addMonths(start, 1);
+  const spend = new Map<string, number>();
+  transactions
+    .filter(tx => tx.type === TransactionType.EXPENSE && new Date(tx.date) >= start && new Date(tx.date) < end)
+    .forEach(tx => {
+      const name = normalizeCategory(tx.category, categories);
+      spend.set(name, (spend.get(name) || 0) + tx.amount);
+    });
+  return spend;
+};
+
+/**
+ * Budgeted categories with this month's spending, closest to their budget first.
+ */
+export const budgetProgress = (transactions: Transaction[], categories: Category[], now = new Date()): BudgetProgress[] => {
+  const spend = spendByCategory(transactions, categories, now);
+  return categories
+    .filter(category => (category.monthlyBudget || 0) > 0)
+    .map(category => ({ category, spent: spend.get(category.name) || 0 }))
+    .sort((a, b) => b.spent / b.category.monthlyBudget! - a.spent / a.category.monthlyBudget!);
+};
+
+/**
+ * Confirmed EXPENSE entries that would take a category over its budget for their month, keyed
+ * by entry. Earlier entries in the same review count towards later ones.
+ */
+export const budgetAlerts = (
+  entries: PendingEntry[],
+  transactions: Transaction[],
+  categories: Category[],
+  toBase: (amount: number, currency?: string) => number
+): Record<string, BudgetAlert> => {
+  const spendByMonth = new Map<string, Map<string, number>>();
+  const alerts: Record<string, BudgetAlert> = {};
+  entries.filter(e => e.confirmed && e.type === TransactionType.EXPENSE && e.amount).forEach(entry => {
+    const category = findCategory(entry.category || 'General', categories);
+    if (!category?.monthlyBudget) return;
+    const month = monthKey(entry.date);
+    if (!spendByMonth.has(month)) spendByMonth.set(month, spendByCategory(transactions, categories, new Date(entry.date)));
+    const spend = spendByMonth.get(month)!;
+    const spent = (spend.get(category.name) || 0) + toBase(entry.amount!, entry.currency?.toUpperCase());
+    spend.set(category.name, spent);
+    if (spent > category.monthlyBudget) alerts[entry.key] = { category: category.name, budget: category.monthlyBudget, spent };
+  });
+  return alerts;
+};
@@ -0,0 +1,63 @@
+import { Transaction } from "../types";
+import { getLocalSetting, putLocalSetting } from './localStore';
+
+/**
+ * Units of each currency per 1 USD. Keeping every rate against one reference means the table
+ * stays valid when the business changes its base currency.
+ */
+export type ExchangeRates = Record<string, number>;
+
+export const DEFAULT_CURRENCY = 'UGX';
+
+export const SUPPORTED_CURRENCIES = ['UGX', 'KES', 'TZS', 'RWF', 'USD', 'EUR', 'GBP'];
+
+export const DEFAULT_RATES: ExchangeRates = {
+  USD: 1,
+  UGX: 3700,
+  KES: 129,
+  TZS: 2650,
+  RWF: 1400,
+  EUR: 0.92,
+  GBP: 0.79,
+};
+
+export const getExchangeRates = async (userId: string): Promise<ExchangeRates> => {
+  const stored = await getLocalSetting<ExchangeRates>(userId, 'exchangeRates').catch(() => undefined);
+  return { ...DEFAULT_RATES, ...stored };
+};
+
+export const saveExchangeRates = async (userId: string, rates: ExchangeRates): Promise<void> => {
+  await putLocalSetting(userId, 'exchangeRates', rates);
+};
+
+/**
+ * Converts between two currencies through the USD reference. Unknown currencies pass through unchanged.
+ */
+export const convert = (amount: number, from: string, to: string, rates: ExchangeRates): number => {
+  if (from === to || !rates[from] || !rates[to]) return amount;
+  return (amount / rates[from]) * rates[to];
+};
+
+/**
+ * Copies of the transactions with amounts restated in the base currency, for totals and balances.
+ * Entries recorded before currencies were tracked are in the base currency: they are stamped
+ * with it before it can change (see stampLedgerCurrency).
+ */
+export const toBaseCurrency = (transactions: Transaction[], base: string, rates: ExchangeRates): Transaction[] =>
+  transactions.map(tx => !tx.currency || tx.currency === base
+    ? tx
+    : {
+      ...tx,
+      amount: convert(tx.amount, tx.currency, base, rates),
+      items: tx.items?.map(item => item.unitPrice === undefined ? item : { ...item, unitPrice: convert(item.unitPrice, tx.currency!, base, rates) }),
+      currency: base
+    });
+
+export const formatMoney = (amount: number, currency?: string): string => {
+  if (!currency) return new Intl.NumberFormat(undefined, { maximumFractionDigits: 2 }).format(amount);
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, currencyDisplay: 'code' }).format(amount);
+  } catch {
+    return `${currency} ${new Intl.NumberFormat().format(amount)}`;
+  }
+};
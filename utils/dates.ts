@@ -0,0 +1,256 @@
+export interface DateRange {
+  start: Date; // inclusive
+  end: Date; // exclusive
+  label: string;
+}
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+export const startOfDay = (date: Date): Date => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+};
+
+export const startOfWeek = (date: Date, weekStartsOn = 1): Date => {
+  const d = startOfDay(date);
+  const diff = (d.getDay() - weekStartsOn + 7) % 7;
+  return addDays(d, -diff);
+};
+
+export const startOfMonth = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), 1);
+
+export const addMonths = (date: Date, months: number): Date => new Date(date.getFullYear(), date.getMonth() + months, 1);
+
+export const isInRange = (iso: string, range: DateRange): boolean => {
+  const d = new Date(iso);
+  return d >= range.start && d < range.end;
+};
+
+/**
+ * Parses a plain `YYYY-MM-DD` as a local calendar day. `new Date('2026-03-01')` would be UTC midnight.
+ */
+export const parseLocalDate = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+/**
+ * Resolves a month name ("march", "Mar") or `YYYY-MM` to that calendar month.
+ * A bare name means its most recent occurrence, so "December" asked in March is last December.
+ */
+export const resolveNamedMonth = (value: string, now = new Date()): DateRange | null => {
+  const trimmed = value.trim().toLowerCase();
+  let year = now.getFullYear();
+  let month = -1;
+
+  const iso = /^(\d{4})-(\d{2})$/.exec(trimmed);
+  if (iso) {
+    year = Number(iso[1]);
+    month = Number(iso[2]) - 1;
+  } else {
+    const withYear = /^([a-z]+)\s*(\d{4})?$/.exec(trimmed);
+    if (withYear) {
+      month = MONTHS.findIndex(m => m.startsWith(withYear[1].slice(0, 3)));
+      if (withYear[2]) year = Number(withYear[2]);
+      else if (month > now.getMonth()) year -= 1;
+    }
+  }
+
+  if (month < 0 || month > 11) return null;
+  const start = new Date(year, month, 1);
+  return {
+    start,
+    end: addMonths(start, 1),
+    label: start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+  };
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY = `(${WEEKDAYS.map(d => `${d.slice(0, 3)}(?:${d.slice(3)})?`).join('|')})`;
+const MONTH = `(${MONTHS.map(m => `${m.slice(0, 3)}(?:${m.slice(3)})?`).join('|')})\\.?`;
+const ORDINAL = '(\\d{1,2})(?:st|nd|rd|th)?';
+
+export interface DatePhrase {
+  date: Date; // Local midnight of the day meant
+  index: number;
+  length: number;
+}
+
+const monthIndex = (name: string) => MONTHS.findIndex(m => m.startsWith(name.slice(0, 3).toLowerCase()));
+
+// A day without a year is its most recent occurrence, so "3rd December" said in March is last December.
+const pastDay = (month: number, day: number, year: string | undefined, now: Date): Date | null => {
+  const fullYear = year ? Number(year.length === 2 ? `20${year}` : year) : now.getFullYear();
+  const date = new Date(fullYear, month, day);
+  if (date.getMonth() !== month) return null;
+  return !year && date > now ? new Date(fullYear - 1, month, day) : date;
+};
+
+// Each pattern turns its match into a day; the earliest match in the text wins.
+const DATE_PATTERNS: [RegExp, (m: RegExpExecArray, today: Date, now: Date) => Date | null][] = [
+  [/\b(?:the\s+)?day\s+before\s+yesterday\b|\bjuzi\b/i, (_, today) => addDays(today, -2)],
+  [/\byesterday\b|\bjana\b|\bjjo\b/i, (_, today) => addDays(today, -1)],
+  [/\btoday\b|\bleo\b|\bleero\b/i, (_, today) => today],
+  [/\b(\d{1,2}|a|one|two|three|four|five|six)\s+days?\s+ago\b/i, (m, today) => {
+    const words = ['a', 'one', 'two', 'three', 'four', 'five', 'six'];
+    const n = /\d/.test(m[1]) ? Number(m[1]) : Math.max(1, words.indexOf(m[1].toLowerCase()));
+    return addDays(today, -n);
+  }],
+  // Abbreviations only count after "on" or "last", so "sun hats" or "sat down" aren't dates.
+  [new RegExp(`\\b(?:(last|on)\\s+${WEEKDAY}|(${WEEKDAYS.join('|')}))\\b`, 'i'), (m, today) => {
+    const name = m[2] || m[3];
+    const weekday = WEEKDAYS.findIndex(d => d.startsWith(name.slice(0, 3).toLowerCase()));
+    // "last Friday" said on a Friday means a week ago; a bare "Friday" can be today.
+    const back = (today.getDay() - weekday + 7) % 7 || (m[1]?.toLowerCase() === 'last' ? 7 : 0);
+    return addDays(today, -back);
+  }],
+  [/\b(\d{4})-(\d{2})-(\d{2})\b/, m => parseLocalDate(m[0])],
+  [new RegExp(`\\b(?:on\\s+)?(?:the\\s+)?${ORDINAL}\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?\\b`, 'i'), (m, _, now) => pastDay(monthIndex(m[2]), Number(m[1]), m[3], now)],
+  [new RegExp(`\\b(?:on\\s+)?${MONTH}\\s+${ORDINAL}(?:,?\\s+(\\d{4}))?\\b`, 'i'), (m, _, now) => pastDay(monthIndex(m[1]), Number(m[2]), m[3], now)],
+  // Day first, as written across East Africa: 3/4 is the 3rd of April.
+  [/\b(?:on\s+)?(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/, (m, _, now) => pastDay(Number(m[2]) - 1, Number(m[1]), m[3], now)],
+];
+
+/**
+ * Finds the first date phrase in a message ("yesterday", "last Friday", "on 3rd March", "3/4")
+ * and resolves it to a calendar day no later than `now` unless a year says otherwise.
+ */
+export const findDatePhrase = (text: string, now = new Date()): DatePhrase | null => {
+  const today = startOfDay(now);
+  let found: DatePhrase | null = null;
+  for (const [pattern, resolve] of DATE_PATTERNS) {
+    const match = pattern.exec(text);
+    if (!match || (found && match.index >= found.index)) continue;
+    const date = resolve(match, today, now);
+    if (date) found = { date, index: match.index, length: match[0].length };
+  }
+  return found;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toDateInputValue = (iso: string): string => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+/**
+ * Moves an ISO timestamp to another calendar day (`YYYY-MM-DD`), keeping its local time of day.
+ */
+export const withLocalDate = (iso: string, day: string): string => {
+  const target = parseLocalDate(day);
+  if (!target) return iso;
+  const d = new Date(iso);
+  target.setHours(d.getHours(), d.getMinutes(), d.getSeconds(), d.getMilliseconds());
+  return target.toISOString();
+};
+
+export type ReportPeriod =
+  | 'today'
+  | 'yesterday'
+  | 'this_week'
+  | 'last_week'
+  | 'this_month'
+  | 'last_month'
+  | 'this_quarter'
+  | 'this_year'
+  | 'custom';
+
+export const REPORT_PERIODS: { value: ReportPeriod; label: string }[] = [
+  { value: 'today', label: 'Today' },
+  { value: 'yesterday', label: 'Yesterday' },
+  { value: 'this_week', label: 'This Week' },
+  { value: 'last_week', label: 'Last Week' },
+  { value: 'this_month', label: 'This Month' },
+  { value: 'last_month', label: 'Last Month' },
+  { value: 'this_quarter', label: 'This Quarter' },
+  { value: 'this_year', label: 'This Year' },
+  { value: 'custom', label: 'Custom Range' },
+];
+
+export const WEEK_START_OPTIONS = [
+  { value: 1, label: 'Monday' },
+  { value: 0, label: 'Sunday' },
+  { value: 6, label: 'Saturday' },
+];
+
+export interface PeriodOptions {
+  weekStartsOn?: number; // 0 = Sunday
+  from?: string; // YYYY-MM-DD, custom periods only
+  to?: string; // YYYY-MM-DD, inclusive
+  now?: Date;
+}
+
+// Calendar-month periods are compared month for month; everything else by length in days.
+const MONTH_SPANS: Partial<Record<ReportPeriod, number>> = {
+  this_month: 1,
+  last_month: 1,
+  this_quarter: 3,
+  this_year: 12,
+};
+
+export const formatRangeLabel = (start: Date, end: Date): string => {
+  const last = addDays(end, -1);
+  const long = { day: 'numeric', month: 'short', year: 'numeric' } as const;
+  if (last.getTime() <= start.getTime()) return start.toLocaleDateString('en-GB', long);
+  const sameYear = start.getFullYear() === last.getFullYear();
+  return `${start.toLocaleDateString('en-GB', sameYear ? { day: 'numeric', month: 'short' } : long)} – ${last.toLocaleDateString('en-GB', long)}`;
+};
+
+const range = (start: Date, end: Date): DateRange => ({ start, end, label: formatRangeLabel(start, end) });
+
+/**
+ * Resolves a report period to local calendar boundaries. Days are stepped with `setDate`, so
+ * ranges stay aligned to local midnight across daylight-saving changes.
+ */
+export const resolvePeriod = (period: ReportPeriod, { weekStartsOn = 1, from, to, now = new Date() }: PeriodOptions = {}): DateRange => {
+  const today = startOfDay(now);
+  switch (period) {
+    case 'today':
+      return range(today, addDays(today, 1));
+    case 'yesterday':
+      return range(addDays(today, -1), today);
+    case 'this_week': {
+      const start = startOfWeek(now, weekStartsOn);
+      return range(start, addDays(start, 7));
+    }
+    case 'last_week': {
+      const start = startOfWeek(now, weekStartsOn);
+      return range(addDays(start, -7), start);
+    }
+    case 'this_month':
+      return range(startOfMonth(now), addMonths(now, 1));
+    case 'last_month':
+      return range(addMonths(now, -1), startOfMonth(now));
+    case 'this_quarter': {
+      const start = new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
+      return range(start, addMonths(start, 3));
+    }
+    case 'this_year':
+      return range(new Date(now.getFullYear(), 0, 1), new Date(now.getFullYear() + 1, 0, 1));
+    case 'custom': {
+      const start = (from && parseLocalDate(from)) || today;
+      const last = (to && parseLocalDate(to)) || today;
+      return last < start ? range(last, addDays(start, 1)) : range(start, addDays(last, 1));
+    }
+  }
+};
+
+/**
+ * The equivalent period immediately before `current`: last month for a month, the previous
+ * quarter for a quarter, and the same number of days for weeks, days and custom ranges.
+ */
+export const previousPeriod = (period: ReportPeriod, current: DateRange): DateRange => {
+  const months = MONTH_SPANS[period];
+  if (months) return range(addMonths(current.start, -months), current.start);
+  const days = Math.round((current.end.getTime() - current.start.getTime()) / 86400000);
+  return range(addDays(current.start, -days), current.start);
+};
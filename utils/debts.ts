@@ -0,0 +1,77 @@
+import { DebtBalance, DebtKind, StatementLine, Transaction, TransactionType } from "../types";
+import { formatMoney } from './currency';
+
+/**
+ * Matching key for a counterparty, so "musa" and "Musa " land on the same account.
+ */
+export const counterpartyKey = (name: string): string => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const ACCOUNT_TYPES: Record<DebtKind, { credit: TransactionType; payment: TransactionType }> = {
+  receivable: { credit: TransactionType.DEBT, payment: TransactionType.DEBT_PAYMENT },
+  payable: { credit: TransactionType.CREDIT_PURCHASE, payment: TransactionType.PAYABLE_PAYMENT },
+};
+
+export const paymentTypeFor = (kind: DebtKind): TransactionType => ACCOUNT_TYPES[kind].payment;
+
+export const debtKindOf = (type?: TransactionType): DebtKind | null => {
+  if (type === TransactionType.DEBT || type === TransactionType.DEBT_PAYMENT) return 'receivable';
+  if (type === TransactionType.CREDIT_PURCHASE || type === TransactionType.PAYABLE_PAYMENT) return 'payable';
+  return null;
+};
+
+const debtEffect = (tx: Transaction, kind: DebtKind): number => {
+  if (tx.type === ACCOUNT_TYPES[kind].credit) return tx.amount;
+  if (tx.type === ACCOUNT_TYPES[kind].payment) return -tx.amount;
+  return 0;
+};
+
+export const computeDebtBalances = (transactions: Transaction[], kind: DebtKind = 'receivable'): DebtBalance[] => {
+  const balances = new Map<string, DebtBalance>();
+  // Oldest first, so the display name ends up as the latest spelling used.
+  [...transactions].sort((a, b) => a.date.localeCompare(b.date)).forEach(tx => {
+    if (!tx.counterparty?.trim() || debtEffect(tx, kind) === 0) return;
+    const key = counterpartyKey(tx.counterparty);
+    const entry = balances.get(key) || { key, kind, name: '', balance: 0 };
+    entry.name = tx.counterparty.trim().replace(/\s+/g, ' ');
+    entry.balance += debtEffect(tx, kind);
+    balances.set(key, entry);
+  });
+  return [...balances.values()]
+    .filter(b => b.balance > 0)
+    .sort((a, b) => b.balance - a.balance);
+};
+
+export const getStatementLines = (transactions: Transaction[], key: string, kind: DebtKind = 'receivable'): StatementLine[] => {
+  let balance = 0;
+  return transactions
+    .filter(tx => tx.counterparty && counterpartyKey(tx.counterparty) === key && debtEffect(tx, kind) !== 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(transaction => {
+      balance += debtEffect(transaction, kind);
+      return { transaction, balance };
+    });
+};
+
+export const formatStatement = (
+  businessName: string,
+  name: string,
+  lines: StatementLine[],
+  currency: string,
+  kind: DebtKind = 'receivable'
+): string => {
+  const closing = lines.length ? lines[lines.length - 1].balance : 0;
+  const rows = lines.map(({ transaction, balance }) => {
+    const day = new Date(transaction.date).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+    const isCredit = transaction.type === ACCOUNT_TYPES[kind].credit;
+    const label = isCredit ? (kind === 'payable' ? 'Purchase' : 'Credit') : 'Payment';
+    return `${day}  ${label}  ${isCredit ? '+' : '-'}${formatMoney(transaction.amount)}  Balance ${formatMoney(balance)}`;
+  });
+  return [
+    `${businessName} — Statement ${kind === 'payable' ? 'with' : 'for'} ${name}`,
+    `Generated ${new Date().toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' })}`,
+    '',
+    ...rows,
+    '',
+    `${kind === 'payable' ? 'We owe' : 'Balance due'}: ${formatMoney(closing, currency)}`
+  ].join('\n');
+};
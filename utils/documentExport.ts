@@ -0,0 +1,117 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { BusinessDocument } from "../types";
+import { formatMoney } from './currency';
+
+const MARGIN = 40;
+const HEADER_FILL: [number, number, number] = [15, 23, 42]; // Tailwind slate-900
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Lays out an invoice or receipt on an A4 page under the business name.
+ */
+export const buildDocumentPdf = (doc: BusinessDocument): Blob => {
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  const width = pdf.internal.pageSize.getWidth();
+
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(20);
+  pdf.text(doc.businessName, MARGIN, 56);
+  pdf.setFontSize(16);
+  pdf.text(doc.title.toUpperCase(), width - MARGIN, 56, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(11);
+  pdf.setTextColor(100);
+  pdf.text(doc.number, width - MARGIN, 74, { align: 'right' });
+  pdf.text(formatDay(doc.issuedAt), width - MARGIN, 90, { align: 'right' });
+  if (doc.status) pdf.text(`Status: ${doc.status}`, width - MARGIN, 106, { align: 'right' });
+  pdf.text(doc.title === 'Invoice' ? 'Bill to' : 'Received from', MARGIN, 90);
+  pdf.setTextColor(0);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(doc.counterparty, MARGIN, 106);
+
+  autoTable(pdf, {
+    startY: 130,
+    head: [['Date', 'Description', 'Amount']],
+    body: doc.lines.map(line => [formatDay(line.date), line.description, formatMoney(line.amount, doc.currency)]),
+    foot: doc.totals.map(total => ['', total.label, formatMoney(total.amount, doc.currency)]),
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [241, 245, 249], textColor: 15 },
+    columnStyles: { 2: { halign: 'right' } },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+
+  pdf.setFontSize(9);
+  pdf.setTextColor(150);
+  pdf.text(`${doc.businessName} • ${doc.title} ${doc.number}`, MARGIN, pdf.internal.pageSize.getHeight() - 20);
+
+  return pdf.output('blob');
+};
+
+const IMAGE_WIDTH = 720;
+const ROW_HEIGHT = 40;
+
+/**
+ * Draws the document as a PNG, for sending where a PDF is awkward to open.
+ */
+export const buildDocumentImage = (doc: BusinessDocument): Promise<Blob> => {
+  const rows = doc.lines.length + doc.totals.length;
+  const canvas = document.createElement('canvas');
+  canvas.width = IMAGE_WIDTH;
+  canvas.height = 240 + rows * ROW_HEIGHT + 60;
+  const ctx = canvas.getContext('2d')!;
+  const right = IMAGE_WIDTH - MARGIN;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, canvas.width, 110);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 30px sans-serif';
+  ctx.fillText(doc.businessName, MARGIN, 58);
+  ctx.font = '16px sans-serif';
+  ctx.fillStyle = '#94a3b8';
+  ctx.fillText(`${doc.title.toUpperCase()} ${doc.number} • ${formatDay(doc.issuedAt)}`, MARGIN, 88);
+
+  ctx.fillStyle = '#64748b';
+  ctx.fillText(doc.title === 'Invoice' ? 'Bill to' : 'Received from', MARGIN, 150);
+  ctx.fillStyle = '#0f172a';
+  ctx.font = 'bold 20px sans-serif';
+  ctx.fillText(doc.counterparty, MARGIN, 178);
+  if (doc.status) {
+    ctx.textAlign = 'right';
+    ctx.fillText(doc.status, right, 178);
+    ctx.textAlign = 'left';
+  }
+
+  let y = 230;
+  ctx.font = '16px sans-serif';
+  doc.lines.forEach(line => {
+    ctx.fillStyle = '#64748b';
+    ctx.fillText(formatDay(line.date), MARGIN, y);
+    ctx.fillStyle = '#0f172a';
+    ctx.fillText(line.description.length > 40 ? `${line.description.slice(0, 39)}…` : line.description, MARGIN + 130, y);
+    ctx.textAlign = 'right';
+    ctx.fillText(formatMoney(line.amount, doc.currency), right, y);
+    ctx.textAlign = 'left';
+    y += ROW_HEIGHT;
+  });
+
+  ctx.fillStyle = '#e2e8f0';
+  ctx.fillRect(MARGIN, y - 24, IMAGE_WIDTH - MARGIN * 2, 1);
+  doc.totals.forEach((total, i) => {
+    const isHeadline = i === doc.totals.length - 1;
+    ctx.font = isHeadline ? 'bold 20px sans-serif' : '16px sans-serif';
+    ctx.fillStyle = isHeadline ? '#0f172a' : '#64748b';
+    ctx.fillText(total.label, MARGIN + 130, y);
+    ctx.textAlign = 'right';
+    ctx.fillText(formatMoney(total.amount, doc.currency), right, y);
+    ctx.textAlign = 'left';
+    y += ROW_HEIGHT;
+  });
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not draw the image")), 'image/png'));
+};
@@ -0,0 +1,35 @@
+import { CorrectableField, ParsedEntry, PendingEntry, Transaction, TransactionType } from "../types";
+import { categoryKey } from "./categories";
+
+const CORRECTABLE_FIELDS: CorrectableField[] = ['type', 'amount', 'currency', 'category', 'counterparty', 'date'];
+
+/**
+ * Fills in the defaults a parsed entry is saved with: INCOME, the business currency and 'General'.
+ */
+export const resolveEntry = (
+  entry: ParsedEntry & { date: string; note?: string },
+  currency: string
+): Omit<Transaction, 'id'> => ({
+  type: entry.type || TransactionType.INCOME,
+  amount: entry.amount || 0,
+  currency: entry.currency?.toUpperCase() || currency,
+  category: entry.category?.trim() || 'General',
+  counterparty: entry.counterparty?.trim() || undefined,
+  note: entry.note?.trim() || undefined,
+  items: entry.items?.length ? entry.items : undefined,
+  date: entry.date,
+});
+
+/**
+ * Lists the fields the user changed from what the parser proposed. Notes are left out
+ * because the parser never fills them in, and another spelling of the same category is no change.
+ */
+export const correctedFields = (entry: PendingEntry, currency: string): CorrectableField[] => {
+  const saved = resolveEntry(entry, currency);
+  const proposed = resolveEntry(entry.parsed, currency);
+  return CORRECTABLE_FIELDS.filter(field =>
+    field === 'category' ? categoryKey(saved.category) !== categoryKey(proposed.category)
+      : field === 'counterparty' ? (saved[field] || '').toLowerCase() !== (proposed[field] || '').toLowerCase()
+        : saved[field] !== proposed[field]
+  );
+};
@@ -0,0 +1,9 @@
+/**
+ * Reads a file into the bare base64 payload expected by Gemini's `inlineData`.
+ */
+export const readFileAsBase64 = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
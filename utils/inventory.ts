@@ -0,0 +1,93 @@
+import { LineItem, Product, StockLevel, Transaction, TransactionType } from "../types";
+
+export const DEFAULT_LOW_STOCK = 5;
+
+// "Bags of Sugar ", "bag of sugar" and "Sugar" are the same product.
+export const productKey = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').toLowerCase().replace(/^[a-z]+ of /, '').split(' ').map(w => w.length > 3 && /[^s]s$/.test(w) ? w.slice(0, -1) : w).join(' ');
+
+// Purchases put stock on the shelf and sales take it off, whether paid now or on credit.
+export const isStockIn = (type: TransactionType): boolean =>
+  type === TransactionType.EXPENSE || type === TransactionType.CREDIT_PURCHASE;
+
+export const isStockOut = (type: TransactionType): boolean =>
+  type === TransactionType.INCOME || type === TransactionType.DEBT;
+
+export const findProduct = (products: Product[], item: LineItem): Product | undefined =>
+  products.find(p => p.id === item.productId) || products.find(p => productKey(p.name) === productKey(item.name));
+
+/**
+ * Matches each line item to a product, creating products for items never seen before and
+ * taking the item's price as the product's latest cost (purchases) or sale price (sales).
+ * Returns the linked items, the updated product list and the products that need saving.
+ */
+export const linkLineItems = (
+  products: Product[],
+  items: LineItem[],
+  type: TransactionType,
+  rate = 1
+): { items: LineItem[]; products: Product[]; changed: Product[] } => {
+  const known = [...products];
+  const changed = new Map<string, Product>();
+
+  const linked = items.map(item => {
+    let product = findProduct(known, item);
+    if (!product) {
+      product = {
+        id: crypto.randomUUID(),
+        name: item.name.trim(),
+        unit: item.unit?.trim() || 'pcs',
+        costPrice: 0,
+        salePrice: 0,
+        quantity: 0,
+        lowStockAt: DEFAULT_LOW_STOCK,
+      };
+      known.push(product);
+      changed.set(product.id, product);
+    }
+    if (item.unitPrice) {
+      const price = item.unitPrice * rate;
+      const priced = isStockIn(type) ? { ...product, costPrice: price } : { ...product, salePrice: price };
+      if (priced.costPrice !== product.costPrice || priced.salePrice !== product.salePrice) {
+        known[known.indexOf(product)] = priced;
+        changed.set(priced.id, priced);
+      }
+    }
+    return { ...item, productId: product.id };
+  });
+
+  return { items: linked, products: known, changed: [...changed.values()] };
+};
+
+/**
+ * Stock on hand per product: the last count plus purchases less sales recorded since, along with
+ * all-time units sold, sales revenue and gross margin at the current cost price. Low stock first.
+ */
+export const computeStockLevels = (products: Product[], transactions: Transaction[]): StockLevel[] => {
+  const levels = new Map<string, StockLevel>(products.map(p => [p.id, { product: p, onHand: p.quantity, sold: 0, revenue: 0, margin: 0 }]));
+
+  transactions.forEach(tx => {
+    const stockIn = isStockIn(tx.type);
+    if (!tx.items || (!stockIn && !isStockOut(tx.type))) return;
+    tx.items.forEach(item => {
+      const product = findProduct(products, item);
+      const level = product && levels.get(product.id);
+      if (!level) return;
+      const counted = !level.product.countedAt || new Date(tx.date) >= new Date(level.product.countedAt);
+      if (stockIn) {
+        if (counted) level.onHand += item.quantity;
+        return;
+      }
+      if (counted) level.onHand -= item.quantity;
+      level.sold += item.quantity;
+      level.revenue += item.quantity * (item.unitPrice ?? level.product.salePrice);
+    });
+  });
+
+  return [...levels.values()]
+    .map(level => ({ ...level, margin: level.revenue - level.sold * level.product.costPrice }))
+    .sort((a, b) =>
+      Number(b.onHand <= b.product.lowStockAt) - Number(a.onHand <= a.product.lowStockAt) ||
+      a.product.name.localeCompare(b.product.name)
+    );
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Transaction, TransactionType } from '../types';
+import { invoicedTransactionIds, newInvoice } from './invoices';
+
+const entry = (id: string, type: TransactionType, amount: number, date: string): Transaction => ({
+  id, type, amount, date, category: 'Credit Sale', counterparty: 'Musa',
+});
+
+describe('newInvoice', () => {
+  it('bills the credit sales oldest first, naming the entry on each line', () => {
+    const invoice = newInvoice('Musa', [
+      entry('b', TransactionType.DEBT, 2000, '2026-03-12T09:00:00.000Z'),
+      entry('p', TransactionType.DEBT_PAYMENT, 500, '2026-03-11T09:00:00.000Z'),
+      entry('a', TransactionType.DEBT, 1000, '2026-03-10T09:00:00.000Z'),
+    ], 7);
+    expect(invoice).toMatchObject({ number: 7, counterparty: 'Musa' });
+    expect(invoice.lines).toMatchObject([
+      { transactionId: 'a', amount: 1000 },
+      { transactionId: 'b', amount: 2000 },
+    ]);
+  });
+});
+
+describe('invoicedTransactionIds', () => {
+  it('collects the entries already billed, skipping lines from before ids were kept', () => {
+    const billed = newInvoice('Musa', [entry('a', TransactionType.DEBT, 1000, '2026-03-10T09:00:00.000Z')], 1);
+    const legacy = { ...billed, id: 'old', number: 2, lines: [{ date: '2026-03-01T09:00:00.000Z', description: 'Credit Sale', amount: 300 }] };
+    expect([...invoicedTransactionIds([billed, legacy])]).toEqual(['a']);
+  });
+});
@@ -0,0 +1,119 @@
+import { BusinessDocument, Invoice, InvoiceLine, InvoiceStatus, InvoiceSummary, PaymentReceipt, Transaction, TransactionType } from "../types";
+import { counterpartyKey, getStatementLines } from "./debts";
+import { formatMoney } from "./currency";
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  open: 'Open',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+};
+
+export const formatDocumentNumber = (prefix: 'INV' | 'RCT', number: number): string =>
+  `${prefix}-${String(number).padStart(4, '0')}`;
+
+const describe = (tx: Transaction): string =>
+  tx.items?.length
+    ? tx.items.map(item => `${item.quantity} ${item.unit ? `${item.unit} ` : ''}${item.name}`).join(', ')
+    : tx.note || (tx.entryCount ? `${tx.entryCount} credit sales` : tx.category);
+
+/**
+ * Ids of the entries already billed on one of `invoices`. Each entry is billed once.
+ */
+export const invoicedTransactionIds = (invoices: Invoice[]): Set<string> =>
+  new Set(invoices.flatMap(invoice => invoice.lines.flatMap(line => line.transactionId ? [line.transactionId] : [])));
+
+/**
+ * Bills the given DEBT entries, oldest first. Expects amounts already in the business currency
+ * and `number` from allocateDocumentNumber.
+ */
+export const newInvoice = (counterparty: string, transactions: Transaction[], number: number): Invoice => ({
+  id: crypto.randomUUID(),
+  number,
+  counterparty,
+  lines: transactions
+    .filter(tx => tx.type === TransactionType.DEBT)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((tx): InvoiceLine => ({ transactionId: tx.id, date: tx.date, description: describe(tx), amount: tx.amount })),
+  issuedAt: new Date().toISOString(),
+});
+
+export const invoiceTotal = (invoice: Invoice): number => invoice.lines.reduce((sum, line) => sum + line.amount, 0);
+
+/**
+ * Payments are not tied to particular sales, so they clear a customer's oldest credit first:
+ * whatever they still owe is the newest credit. A credit sale is unpaid by as much of the
+ * balance as is not taken up by credit given after it.
+ */
+export const unpaidAmount = (date: string, amount: number, transactions: Transaction[], counterparty: string): number => {
+  const lines = getStatementLines(transactions, counterpartyKey(counterparty), 'receivable');
+  const outstanding = lines.length ? lines[lines.length - 1].balance : 0;
+  const creditAfter = lines
+    .filter(({ transaction }) => transaction.type === TransactionType.DEBT && transaction.date > date)
+    .reduce((sum, { transaction }) => sum + transaction.amount, 0);
+  return Math.min(amount, Math.max(0, outstanding - creditAfter));
+};
+
+/**
+ * What has been paid towards an invoice, going by the customer's balance in `transactions`
+ * (amounts in the business currency).
+ */
+export const summarizeInvoice = (invoice: Invoice, transactions: Transaction[]): InvoiceSummary => {
+  const total = invoiceTotal(invoice);
+  const unpaid = invoice.lines.reduce((sum, line) => sum + unpaidAmount(line.date, line.amount, transactions, invoice.counterparty), 0);
+  const status: InvoiceStatus = unpaid <= 0 ? 'paid' : unpaid >= total ? 'open' : 'partially_paid';
+  return { invoice, total, paid: total - unpaid, status };
+};
+
+export const invoiceDocument = ({ invoice, total, paid, status }: InvoiceSummary, businessName: string, currency: string): BusinessDocument => ({
+  title: 'Invoice',
+  number: formatDocumentNumber('INV', invoice.number),
+  businessName,
+  currency,
+  counterparty: invoice.counterparty,
+  issuedAt: invoice.issuedAt,
+  lines: invoice.lines,
+  totals: [
+    { label: 'Total', amount: total },
+    { label: 'Paid', amount: paid },
+    { label: 'Balance Due', amount: total - paid },
+  ],
+  status: INVOICE_STATUS_LABELS[status],
+});
+
+export const receiptDocument = (receipt: PaymentReceipt, businessName: string, currency: string): BusinessDocument => ({
+  title: 'Receipt',
+  number: formatDocumentNumber('RCT', receipt.number),
+  businessName,
+  currency,
+  counterparty: receipt.counterparty,
+  issuedAt: receipt.issuedAt,
+  lines: [{ date: receipt.paidAt, description: 'Payment received, thank you', amount: receipt.amount }],
+  totals: [
+    { label: 'Amount Paid', amount: receipt.amount },
+    { label: 'Balance Remaining', amount: receipt.balanceAfter },
+  ],
+});
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * The document as a short message, with a link to the PDF when one could be made.
+ */
+export const documentMessage = (doc: BusinessDocument, link?: string | null): string => [
+  `${doc.businessName} — ${doc.title} ${doc.number}`,
+  `${doc.title === 'Invoice' ? 'To' : 'Received from'}: ${doc.counterparty}`,
+  `Date: ${formatDay(doc.issuedAt)}`,
+  '',
+  ...doc.lines.map(line => `${formatDay(line.date)}  ${line.description}  ${formatMoney(line.amount, doc.currency)}`),
+  '',
+  ...doc.totals.map(total => `${total.label}: ${formatMoney(total.amount, doc.currency)}`),
+  ...(doc.status ? [`Status: ${doc.status}`] : []),
+  ...(link ? ['', `Download: ${link}`] : []),
+].join('\n');
+
+export const whatsappLink = (text: string): string => `https://wa.me/?text=${encodeURIComponent(text)}`;
+
+export const documentFileName = (doc: BusinessDocument, extension: 'pdf' | 'png'): string => {
+  const slug = doc.businessName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'kazi';
+  return `${slug}-${doc.number.toLowerCase()}.${extension}`;
+};
@@ -0,0 +1,47 @@
+import { HistoryFilter, Transaction, TransactionType } from "../types";
+import { categoryKey } from "./categories";
+import { counterpartyKey } from "./debts";
+
+// Cash actually received or paid out. Credit given (DEBT) or taken (CREDIT_PURCHASE) moves no cash.
+export const isInflow = (tx: Transaction): boolean =>
+  tx.type === TransactionType.INCOME || tx.type === TransactionType.DEBT_PAYMENT;
+
+export const isOutflow = (tx: Transaction): boolean =>
+  tx.type === TransactionType.EXPENSE || tx.type === TransactionType.PAYABLE_PAYMENT;
+
+export const totalInflow = (transactions: Transaction[]): number =>
+  transactions.filter(isInflow).reduce((sum, t) => sum + t.amount, 0);
+
+export const totalOutflow = (transactions: Transaction[]): number =>
+  transactions.filter(isOutflow).reduce((sum, t) => sum + t.amount, 0);
+
+export interface CategoryTotal {
+  category: string;
+  amount: number;
+}
+
+/**
+ * Sums the matching transactions per category, largest first. Spellings with the same
+ * `categoryKey` are grouped and shown with the first one seen.
+ */
+export const totalsByCategory = (transactions: Transaction[], include: (tx: Transaction) => boolean): CategoryTotal[] => {
+  const totals = new Map<string, CategoryTotal>();
+  transactions.filter(include).forEach(tx => {
+    const name = tx.category?.trim() || 'General';
+    const key = categoryKey(name);
+    const entry = totals.get(key) || { category: name, amount: 0 };
+    entry.amount += tx.amount;
+    totals.set(key, entry);
+  });
+  return [...totals.values()].sort((a, b) => b.amount - a.amount);
+};
+
+export const matchesHistoryFilter = (tx: Transaction, filter: HistoryFilter): boolean => {
+  const time = new Date(tx.date).getTime();
+  return (!filter.category || categoryKey(tx.category?.trim() || 'General') === categoryKey(filter.category)) &&
+    (!filter.counterparty || (!!tx.counterparty && counterpartyKey(tx.counterparty) === counterpartyKey(filter.counterparty))) &&
+    (!filter.types || filter.types.includes(tx.type)) &&
+    (!filter.recordedBy || tx.recordedBy === filter.recordedBy) &&
+    (!filter.from || time >= new Date(filter.from).getTime()) &&
+    (!filter.to || time < new Date(filter.to).getTime());
+};
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TransactionType } from '../types';
+import { parseLocally, parseQuery } from './localParser';
+
+// Wednesday 18 March 2026, mid-morning.
+const NOW = new Date(2026, 2, 18, 10);
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('parseLocally', () => {
+  const corpus: [string, object[]][] = [
+    ['sold 3 sodas for 3000', [{ type: TransactionType.INCOME, amount: 3000, category: 'Sales', items: [{ name: 'Sodas', quantity: 3, unitPrice: 1000 }] }]],
+    ['sold 5 bags of sugar at 4000', [{ type: TransactionType.INCOME, amount: 20000, items: [{ name: 'Sugar', quantity: 5, unit: 'bag', unitPrice: 4000 }] }]],
+    ['paid rent 200k', [{ type: TransactionType.EXPENSE, amount: 200000, category: 'Rent' }]],
+    ['sold goods 1.5m', [{ type: TransactionType.INCOME, amount: 1500000 }]],
+    ['received 1,250,000 from sales', [{ type: TransactionType.INCOME, amount: 1250000 }]],
+    ['spent $20 on airtime', [{ type: TransactionType.EXPENSE, amount: 20, currency: 'USD', category: 'Airtime' }]],
+    ['Musa owes 1000', [{ type: TransactionType.DEBT, amount: 1000, counterparty: 'Musa' }]],
+    ['Musa owes me 5000 for 2 bags', [{ type: TransactionType.DEBT, amount: 5000, counterparty: 'Musa' }]],
+    ['Mama Rose owes 15k', [{ type: TransactionType.DEBT, amount: 15000, counterparty: 'Mama Rose' }]],
+    ['Musa paid 500', [{ type: TransactionType.DEBT_PAYMENT, amount: 500, counterparty: 'Musa' }]],
+    ['I owe Kato 20k', [{ type: TransactionType.CREDIT_PURCHASE, amount: 20000, counterparty: 'Kato' }]],
+    ['Kato gave me 20k on credit', [{ type: TransactionType.CREDIT_PURCHASE, amount: 20000, counterparty: 'Kato' }]],
+    ['paid Kato back 20k', [{ type: TransactionType.PAYABLE_PAYMENT, amount: 20000, counterparty: 'Kato' }]],
+  ];
+
+  it.each(corpus)('reads "%s"', (text, entries) => {
+    const result = parseLocally(text);
+    expect(result.intent).toBe('RECORD');
+    expect(result.entries).toMatchObject(entries);
+    expect(result.entries).toHaveLength(entries.length);
+  });
+
+  it('splits a message into one entry per clause', () => {
+    const result = parseLocally('sold 3 sodas for 3000, paid rent 200k and Musa owes 1000');
+    expect(result.entries).toMatchObject([
+      { type: TransactionType.INCOME, amount: 3000 },
+      { type: TransactionType.EXPENSE, amount: 200000, category: 'Rent' },
+      { type: TransactionType.DEBT, amount: 1000, counterparty: 'Musa' },
+    ]);
+  });
+
+  it('keeps goods sold for one total in a single clause', () => {
+    const result = parseLocally('sold 3 sodas and 2 breads for 5000');
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries?.[0]).toMatchObject({ type: TransactionType.INCOME, amount: 5000 });
+    expect(result.entries?.[0].items).toBeUndefined();
+  });
+
+  it('dates an entry from a relative day', () => {
+    const result = parseLocally('sold bread 5000 yesterday');
+    expect(result.date).toBe('2026-03-17');
+    expect(result.entries?.[0]).toMatchObject({ amount: 5000, date: '2026-03-17' });
+  });
+
+  it('carries a date over to the clauses after it', () => {
+    const result = parseLocally('sold milk 4000 then paid transport 2k on 3rd March and sold bread 1000');
+    expect(result.entries?.map(e => e.date)).toEqual([undefined, '2026-03-03', '2026-03-03']);
+  });
+
+  it('resolves a weekday to its most recent occurrence', () => {
+    expect(parseLocally('paid transport 2k last Friday').entries?.[0].date).toBe('2026-03-13');
+    expect(parseLocally('paid transport 2k on Wednesday').entries?.[0].date).toBe('2026-03-18');
+    expect(parseLocally('paid transport 2k on Fri').entries?.[0].date).toBe('2026-03-13');
+  });
+
+  it('reads a weekday abbreviation in passing as a word, not a date', () => {
+    const result = parseLocally('sold 3 sun hats for 5000');
+    expect(result.date).toBeUndefined();
+    expect(result.entries?.[0]).toMatchObject({ amount: 5000, items: [{ name: 'Sun Hats', quantity: 3 }] });
+    expect(result.entries?.[0].date).toBeUndefined();
+  });
+
+  it('reads a schedule as a recurring entry', () => {
+    expect(parseLocally('pay rent 300k every month on the 28th')).toMatchObject({
+      intent: 'RECURRING',
+      entries: [{ type: TransactionType.EXPENSE, amount: 300000, category: 'Rent' }],
+      schedule: { frequency: 'monthly', day: 28 },
+    });
+    expect(parseLocally('loan 50k every Friday').schedule).toEqual({ frequency: 'weekly', day: 5 });
+    expect(parseLocally('salary 150k monthly on the 28th').schedule).toEqual({ frequency: 'monthly', day: 28 });
+    expect(parseLocally('pay cleaner 20k weekly').schedule).toEqual({ frequency: 'weekly', day: 3 });
+  });
+
+  it('reads "weekly" or "monthly" inside a message as a one-off entry', () => {
+    expect(parseLocally('paid weekly wages 50k')).toMatchObject({
+      intent: 'RECORD',
+      entries: [{ type: TransactionType.EXPENSE, amount: 50000, category: 'Wages' }],
+    });
+    expect(parseLocally('sold monthly passes 30k').intent).toBe('RECORD');
+  });
+
+  it('sends questions to the query parser', () => {
+    expect(parseLocally('how much did I sell today?').intent).toBe('QUERY');
+  });
+
+  it('gives up rather than guessing', () => {
+    expect(parseLocally('hello there').intent).toBe('UNKNOWN');
+    expect(parseLocally('sold some bread').intent).toBe('UNKNOWN');
+  });
+});
+
+describe('parseQuery', () => {
+  it.each([
+    ['how much did I sell today?', { type: TransactionType.INCOME, queryRange: 'today' }],
+    ['how much did I spend last month', { type: TransactionType.EXPENSE, queryRange: 'last_month' }],
+    ['show sales this week', { type: TransactionType.INCOME, queryRange: 'week' }],
+    ['what did I make this year', { type: TransactionType.INCOME, queryRange: 'year' }],
+    ['list expenses', { type: TransactionType.EXPENSE, queryRange: 'all' }],
+  ])('reads "%s"', (text, expected) => {
+    expect(parseQuery(text)).toMatchObject({ intent: 'QUERY', ...expected });
+  });
+
+  it('asks about one customer or supplier', () => {
+    expect(parseQuery('does Musa owe me?')).toMatchObject({ type: TransactionType.DEBT, counterparty: 'Musa', queryRange: undefined });
+    expect(parseQuery('what do I owe Kato')).toMatchObject({ type: TransactionType.CREDIT_PURCHASE, counterparty: 'Kato' });
+  });
+});
@@ -0,0 +1,286 @@
+import { LineItem, ParsedEntry, ParseResult, QueryRange, Schedule, TransactionType } from "../types";
+import { findDatePhrase, toDateInputValue } from "./dates";
+
+/**
+ * Deterministic parser for the everyday phrasings ("sold 3 sodas for 3000", "paid rent 200k",
+ * "Musa owes 1000", "Musa paid 500"), used when Gemini can't be reached. Anything it can't
+ * place confidently comes back as UNKNOWN rather than as a guess.
+ */
+
+const SUFFIXES: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, mn: 1e6, million: 1e6 };
+
+const CURRENCY_WORDS: Record<string, string> = {
+  ksh: 'KES', kshs: 'KES', kes: 'KES',
+  ush: 'UGX', ugx: 'UGX',
+  tsh: 'TZS', tzs: 'TZS',
+  rwf: 'RWF', frw: 'RWF',
+  '$': 'USD', usd: 'USD', dollar: 'USD', dollars: 'USD',
+  '€': 'EUR', eur: 'EUR', euro: 'EUR', euros: 'EUR',
+  '£': 'GBP', gbp: 'GBP', pound: 'GBP', pounds: 'GBP',
+};
+
+const PRONOUNS = new Set(['i', 'we', 'me', 'us', 'he', 'she', 'they', 'you', 'it']);
+const STOPWORDS = new Set(['for', 'on', 'the', 'a', 'an', 'some', 'of', 'to', 'my', 'our', 'at', 'with', 'from', 'and', 'today', 'shs', 'sh', 'weekly', 'monthly']);
+
+const AMOUNT = /(?:([$€£])\s*)?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s*(k|m|mn|thousand|million)?\b/gi;
+
+interface AmountMatch {
+  value: number;
+  index: number;
+  length: number;
+  symbol?: string;
+}
+
+const findAmounts = (text: string): AmountMatch[] =>
+  [...text.matchAll(AMOUNT)].map(m => ({
+    value: Number(m[2].replace(/,/g, '')) * (m[3] ? SUFFIXES[m[3].toLowerCase()] : 1),
+    index: m.index || 0,
+    length: m[0].length,
+    symbol: m[1],
+  }));
+
+// Words that can follow a price, as in "at 500 each" or "for 3000 yesterday". Any other word
+// after a number makes it a quantity: "for 2 bags", "for 3 sodas".
+const PRICE_FOLLOWERS = new Set(['each', 'per', 'apiece', 'only', 'cash', 'total', 'yesterday', 'then', 'last', 'this']);
+
+const isQuantity = (text: string, amount: AmountMatch): boolean => {
+  const next = text.slice(amount.index + amount.length).match(/^\s*([a-z]+)/i)?.[1].toLowerCase();
+  return !!next && !PRICE_FOLLOWERS.has(next) && !STOPWORDS.has(next) && !CURRENCY_WORDS[next];
+};
+
+// "sold 3 sodas for 3000": a price after for/at/worth wins, otherwise the largest number.
+// "Musa owes me 5000 for 2 bags": a quantity after "for" is not the price.
+const pickAmount = (text: string, amounts: AmountMatch[]): AmountMatch | undefined => {
+  const priced = amounts.find(a => /(\b(for|at|worth|of)|@)\s*[$€£]?\s*$/i.test(text.slice(0, a.index)) && !isQuantity(text, a));
+  return priced || [...amounts].sort((a, b) => b.value - a.value)[0];
+};
+
+const findCurrency = (text: string, amount?: AmountMatch): string | undefined => {
+  if (amount?.symbol) return CURRENCY_WORDS[amount.symbol];
+  const word = text.toLowerCase().split(/[^a-z$€£]+/).find(w => CURRENCY_WORDS[w]);
+  return word ? CURRENCY_WORDS[word] : undefined;
+};
+
+const titleCase = (words: string) => words.replace(/\b[a-z]/g, c => c.toUpperCase());
+
+const wordsOf = (text: string) => text.toLowerCase().replace(/[^a-z'\s-]/g, ' ').split(/\s+/).filter(Boolean);
+
+// Up to two words before a verb, e.g. "Mama Rose owes", skipping pronouns.
+const subjectBefore = (text: string, verb: RegExp): string | undefined => {
+  const match = text.match(new RegExp(`^\\s*([a-z][\\w'-]*(?:\\s+[a-z][\\w'-]*)?)\\s+${verb.source}`, 'i'));
+  if (!match) return undefined;
+  const words = match[1].split(/\s+/).filter(w => !PRONOUNS.has(w.toLowerCase()));
+  return words.length ? titleCase(words.join(' ')) : undefined;
+};
+
+// The name after a verb, e.g. "gave Musa", "owe Kato", "paid Kato back".
+const objectAfter = (text: string, verb: RegExp): string | undefined => {
+  const match = text.match(new RegExp(`${verb.source}\\s+(?:the\\s+|mr\\.?\\s+|mrs\\.?\\s+)?([a-z][\\w'-]*)`, 'i'));
+  const name = match?.[match.length - 1];
+  return name && !PRONOUNS.has(name.toLowerCase()) && !STOPWORDS.has(name.toLowerCase()) && !/^\d/.test(name)
+    ? titleCase(name)
+    : undefined;
+};
+
+// The first meaningful word after a verb, e.g. "paid rent 200k" -> Rent.
+const categoryAfter = (text: string, verb: RegExp): string | undefined => {
+  const at = text.search(verb);
+  const rest = at < 0 ? '' : text.slice(at).replace(verb, '');
+  const word = wordsOf(rest).find(w => !STOPWORDS.has(w) && !CURRENCY_WORDS[w] && !SUFFIXES[w]);
+  return word ? titleCase(word) : undefined;
+};
+
+const UNITS = 'bags?|kgs?|kilos?|crates?|boxes?|bottles?|pieces?|pcs|litres?|liters?|packets?|trays?|dozens?|sacks?|cartons?|tins?';
+const ITEM = new RegExp(`\\b(?:sold|sell|bought|buy|purchased|restocked)\\s+(\\d+(?:\\.\\d+)?)\\s+(?:(${UNITS})\\s+(?:of\\s+)?)?([a-z][a-z'-]*(?:\\s+[a-z][a-z'-]*)?)`, 'i');
+
+const singularUnit = (unit: string) => unit.endsWith('xes') ? unit.slice(0, -2) : unit.replace(/s$/, '');
+
+// "sold 5 bags of sugar at 4000": the price after at/@ or before "each" is per unit, otherwise it is the total.
+// Several goods for one total ("3 sodas and 2 breads for 5000") can't be split, so they get no items.
+const withItem = (clause: string, entry: ParsedEntry, amount: AmountMatch): ParsedEntry => {
+  const match = clause.match(ITEM);
+  if (!match || /\band\b/i.test(clause)) return entry;
+  const words = match[3].split(/\s+/).filter(w => !STOPWORDS.has(w.toLowerCase()) && !/^(at|each)$/i.test(w));
+  const quantity = Number(match[1]);
+  if (words.length === 0 || quantity <= 0 || quantity === amount.value) return entry;
+
+  const before = clause.slice(0, amount.index);
+  const after = clause.slice(amount.index + amount.length);
+  const perUnit = /(\bat|@)\s*[$€£]?\s*$/i.test(before) || /^\s*(each|per|a piece)\b/i.test(after);
+  const item: LineItem = {
+    name: titleCase(words.join(' ').toLowerCase()),
+    quantity,
+    unit: match[2] ? singularUnit(match[2].toLowerCase()) : undefined,
+    unitPrice: perUnit ? amount.value : amount.value / quantity,
+  };
+  return { ...entry, amount: perUnit ? amount.value * quantity : amount.value, items: [item] };
+};
+
+const parseClause = (clause: string): ParsedEntry | null => {
+  const amounts = findAmounts(clause);
+  const amount = pickAmount(clause, amounts);
+  if (!amount || amount.value <= 0) return null;
+
+  const entry: ParsedEntry = { amount: amount.value, currency: findCurrency(clause, amount) };
+  const text = clause.toLowerCase();
+
+  if (/\b(i|we)\s+owe\b/.test(text) || /\bon credit from\b/.test(text)) {
+    return {
+      ...entry,
+      type: TransactionType.CREDIT_PURCHASE,
+      category: 'Stock',
+      counterparty: objectAfter(clause, /\bowe/) || objectAfter(clause, /\bon credit from/),
+    };
+  }
+
+  // "Kato gave me 20k on credit": the business is the one who owes.
+  const lender = subjectBefore(clause, /(?:gave|sold)\s+(?:me|us)\b/);
+  if (lender && /\bon credit\b/.test(text)) {
+    return { ...entry, type: TransactionType.CREDIT_PURCHASE, category: 'Stock', counterparty: lender };
+  }
+
+  const debtor = subjectBefore(clause, /(?:owes|still owes|has taken|took)\b/);
+  if (debtor && /\b(owes|on credit)\b/.test(text)) {
+    return { ...entry, type: TransactionType.DEBT, category: 'Credit Sale', counterparty: debtor };
+  }
+  if (/\b(gave|sold to)\b.*\bon credit\b/.test(text)) {
+    return { ...entry, type: TransactionType.DEBT, category: 'Credit Sale', counterparty: objectAfter(clause, /\b(?:gave|sold to)/) };
+  }
+
+  const payer = subjectBefore(clause, /(?:paid|has paid|repaid|paid back|gave back|cleared)\b/);
+  if (payer) {
+    return { ...entry, type: TransactionType.DEBT_PAYMENT, category: 'Debt Payment', counterparty: payer };
+  }
+
+  if (/\b(repaid|paid back|cleared)\b/.test(text) || /\bpaid\s+[a-z]+\s+back\b/.test(text)) {
+    return {
+      ...entry,
+      type: TransactionType.PAYABLE_PAYMENT,
+      category: 'Supplier Payment',
+      counterparty: objectAfter(clause, /\b(?:repaid|paid back|cleared|paid)/),
+    };
+  }
+
+  if (/\b(sold|sell|sale|sales|received|earned|got|made)\b/.test(text)) {
+    return withItem(clause, { ...entry, type: TransactionType.INCOME, category: 'Sales' }, amount);
+  }
+
+  if (/\b(bought|buy|purchased|restocked)\b/.test(text)) {
+    return withItem(clause, { ...entry, type: TransactionType.EXPENSE, category: 'Stock' }, amount);
+  }
+
+  const spent = text.match(/\b(paid|pay|spent|spend)\b/);
+  if (spent) {
+    return { ...entry, type: TransactionType.EXPENSE, category: categoryAfter(clause, new RegExp(`\\b${spent[1]}\\b`, 'i')) || 'General' };
+  }
+
+  return null;
+};
+
+const VERBS = /\b(owes?|paid|pay|repaid|cleared|spent|spend|sold|sell|sale|sales|received|earned|got|made|bought|buy|purchased|restocked|gave|took)\b/i;
+
+// Clauses split on ", " / " and " / ";" so that "5,000" stays one number. A piece without a verb
+// ("sold 3 sodas and 2 breads for 5000") belongs to the clause before it.
+const splitClauses = (text: string): string[] =>
+  text.split(/\s*(?:;|,\s+|\band then\b|\bthen\b|\band\b)\s*/i)
+    .map(c => c.trim())
+    .filter(Boolean)
+    .reduce<string[]>((clauses, piece) => {
+      if (clauses.length > 0 && !VERBS.test(piece)) clauses[clauses.length - 1] += ` and ${piece}`;
+      else clauses.push(piece);
+      return clauses;
+    }, []);
+
+const QUERY_RANGES: [RegExp, QueryRange][] = [
+  [/\btoday\b/, 'today'],
+  [/\byesterday\b/, 'yesterday'],
+  [/\blast week\b/, 'last_week'],
+  [/\b(this )?week\b/, 'week'],
+  [/\blast month\b/, 'last_month'],
+  [/\b(this )?month\b/, 'month'],
+  [/\b(this )?year\b/, 'year'],
+];
+
+export const parseQuery = (text: string): ParseResult => {
+  const lower = text.toLowerCase();
+  const range = QUERY_RANGES.find(([pattern]) => pattern.test(lower));
+  const debtor = lower.match(/\bdoes\s+([a-z][\w'-]*)\s+owe\b/) || lower.match(/\bdo i owe\s+([a-z][\w'-]*)/);
+  const type = /\bdo i owe\b/.test(lower)
+    ? TransactionType.CREDIT_PURCHASE
+    : debtor ? TransactionType.DEBT
+    : /\b(sell|sold|sales|make|made|earn)\b/.test(lower) ? TransactionType.INCOME
+    : /\b(spend|spent|expenses?)\b/.test(lower) ? TransactionType.EXPENSE
+    : undefined;
+  return {
+    intent: 'QUERY',
+    type,
+    counterparty: debtor ? titleCase(debtor[1]) : undefined,
+    queryRange: range ? range[1] : debtor ? undefined : 'all',
+    rawText: text,
+  };
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+// "weekly"/"monthly" is a schedule only at the end, bar the day it falls on: "salary 150k monthly on
+// the 28th" repeats, "paid weekly wages 50k" is one payment.
+const EVERY = new RegExp(
+  `\\b(?:every|each)\\s+(month|week|${WEEKDAYS.join('|')})\\b` +
+  `|\\b(monthly|weekly)(?=(?:\\s+on\\s+(?:the\\s+\\d{1,2}(?:st|nd|rd|th)?|(?:${WEEKDAYS.join('|')})s?))?\\s*[.!]?\\s*$)`,
+  'i'
+);
+const ON_WEEKDAY = new RegExp(`\\bon\\s+(${WEEKDAYS.join('|')})s?\\b`, 'i');
+const ON_DAY = /\bon\s+the\s+(\d{1,2})(?:st|nd|rd|th)?\b/i;
+
+// "pay rent 300k every month", "salary 150k monthly on the 28th", "loan 50k every Friday".
+// Returns the schedule and the text left once the schedule words are taken out.
+const findSchedule = (text: string, now: Date): { schedule: Schedule; rest: string } | null => {
+  const every = text.match(EVERY);
+  if (!every) return null;
+  const unit = (every[1] || every[2]).toLowerCase();
+  let rest = text.replace(every[0], ' ');
+
+  if (WEEKDAYS.includes(unit)) return { schedule: { frequency: 'weekly', day: WEEKDAYS.indexOf(unit) }, rest };
+  if (unit.startsWith('week')) {
+    const named = rest.match(ON_WEEKDAY);
+    if (named) rest = rest.replace(named[0], ' ');
+    return { schedule: { frequency: 'weekly', day: named ? WEEKDAYS.indexOf(named[1].toLowerCase()) : now.getDay() }, rest };
+  }
+  const nth = rest.match(ON_DAY);
+  if (nth) rest = rest.replace(nth[0], ' ');
+  const day = nth ? Number(nth[1]) : now.getDate();
+  return { schedule: { frequency: 'monthly', day: day >= 1 && day <= 31 ? day : now.getDate() }, rest };
+};
+
+export const parseLocally = (text: string): ParseResult => {
+  const trimmed = text.trim();
+  if (/^(how|what|show|list|did|do|does)\b/i.test(trimmed) || trimmed.endsWith('?')) {
+    return parseQuery(trimmed);
+  }
+
+  const now = new Date();
+  const recurring = findSchedule(trimmed, now);
+  if (recurring) {
+    const entry = parseClause(recurring.rest) || parseClause(`paid ${recurring.rest}`);
+    return entry
+      ? { intent: 'RECURRING', entries: [entry], schedule: recurring.schedule, rawText: text }
+      : { intent: 'UNKNOWN', rawText: text };
+  }
+
+  // A date ("yesterday", "on 3rd March") applies to its clause and the ones after it.
+  let date: string | undefined;
+  let firstDate: string | undefined;
+  const entries = splitClauses(trimmed)
+    .map(clause => {
+      const phrase = findDatePhrase(clause, now);
+      if (phrase) {
+        date = toDateInputValue(phrase.date.toISOString());
+        firstDate = firstDate || date;
+      }
+      const entry = parseClause(phrase ? clause.slice(0, phrase.index) + clause.slice(phrase.index + phrase.length) : clause);
+      return entry && date ? { ...entry, date } : entry;
+    })
+    .filter((e): e is ParsedEntry => e !== null);
+  return entries.length > 0
+    ? { intent: 'RECORD', entries, date: firstDate, rawText: text }
+    : { intent: 'UNKNOWN', rawText: text };
+};
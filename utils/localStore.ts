@@ -0,0 +1,135 @@
+import { Transaction } from "../types";
+
+const DB_NAME = 'kazi-ledger';
+const DB_VERSION = 3;
+const OUTBOX = 'outbox';
+const RECEIPTS = 'receipts';
+const SETTINGS = 'settings';
+
+/**
+ * A transaction accepted on this device but not yet confirmed by Supabase.
+ * New entries get their row id here, so replaying one twice writes the same row;
+ * `operation: 'update'` entries overwrite an existing row.
+ */
+export interface QueuedTransaction extends Transaction {
+  userId: string;
+  businessId?: string; // Unset on entries queued before team accounts; those belong to the owner's business
+  operation?: 'update';
+  lastError?: string;
+  queuedAt?: number; // Epoch ms, the order the outbox replays in; unset on entries from earlier versions
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX)) {
+        const store = db.createObjectStore(OUTBOX, { keyPath: 'id' });
+        store.createIndex('userId', 'userId');
+      }
+      if (!db.objectStoreNames.contains(RECEIPTS)) {
+        db.createObjectStore(RECEIPTS);
+      }
+      if (!db.objectStoreNames.contains(SETTINGS)) {
+        db.createObjectStore(SETTINGS);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createTransactionId = (): string => crypto.randomUUID();
+
+// Entries queued by earlier versions carry a `local-` id and leave the row id to the server.
+export const isLocalId = (id: string): boolean => id.startsWith('local-');
+
+let lastQueuedAt = 0;
+
+// Entries keep the stamp they were first queued with. Stamps never repeat, so entries queued in
+// the same millisecond keep their order too.
+const stamped = (entry: QueuedTransaction): QueuedTransaction => {
+  if (entry.queuedAt) return entry;
+  lastQueuedAt = Math.max(Date.now(), lastQueuedAt + 1);
+  return { ...entry, queuedAt: lastQueuedAt };
+};
+
+export const putQueuedTransaction = async (entry: QueuedTransaction): Promise<void> => {
+  await withStore(OUTBOX, 'readwrite', store => store.put(stamped(entry)));
+};
+
+export const putQueuedTransactions = async (entries: QueuedTransaction[]): Promise<void> => {
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(OUTBOX, 'readwrite');
+    const store = tx.objectStore(OUTBOX);
+    entries.forEach(entry => store.put(stamped(entry)));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getQueuedTransaction = async (id: string): Promise<QueuedTransaction | undefined> => {
+  return withStore<QueuedTransaction | undefined>(OUTBOX, 'readonly', store => store.get(id));
+};
+
+export const getQueuedTransactions = async (userId: string): Promise<QueuedTransaction[]> => {
+  const entries = await withStore<QueuedTransaction[]>(OUTBOX, 'readonly', store => store.index('userId').getAll(userId));
+  // In the order they were queued, which is not the order of their dates: entries can be backdated.
+  return entries.sort((a, b) => (a.queuedAt ?? 0) - (b.queuedAt ?? 0) || a.date.localeCompare(b.date));
+};
+
+export const removeQueuedTransaction = async (id: string): Promise<void> => {
+  await withStore(OUTBOX, 'readwrite', store => store.delete(id));
+};
+
+// Receipt images are held here, keyed by their storage path, until they reach Supabase Storage.
+export const putLocalReceipt = async (path: string, image: Blob): Promise<void> => {
+  await withStore(RECEIPTS, 'readwrite', store => store.put(image, path));
+};
+
+export const getLocalReceipt = async (path: string): Promise<Blob | undefined> => {
+  return withStore<Blob | undefined>(RECEIPTS, 'readonly', store => store.get(path));
+};
+
+export const getLocalReceiptPaths = async (): Promise<string[]> => {
+  const keys = await withStore<IDBValidKey[]>(RECEIPTS, 'readonly', store => store.getAllKeys());
+  return keys.map(String);
+};
+
+export const removeLocalReceipt = async (path: string): Promise<void> => {
+  await withStore(RECEIPTS, 'readwrite', store => store.delete(path));
+};
+
+// Device-local preferences, keyed per user so a shared phone keeps each account's settings apart.
+export const getLocalSetting = async <T>(userId: string, name: string): Promise<T | undefined> => {
+  return withStore<T | undefined>(SETTINGS, 'readonly', store => store.get(`${userId}:${name}`));
+};
+
+export const putLocalSetting = async <T>(userId: string, name: string, value: T): Promise<void> => {
+  await withStore(SETTINGS, 'readwrite', store => store.put(value, `${userId}:${name}`));
+};
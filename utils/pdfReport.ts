@@ -0,0 +1,114 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { DebtBalance, Transaction } from "../types";
+import { CategoryTotal } from './ledger';
+import { formatMoney } from './currency';
+
+export interface BusinessReport {
+  businessName: string;
+  currency: string;
+  periodLabel: string;
+  totalIn: number;
+  totalOut: number;
+  net: number;
+  incomeByCategory: CategoryTotal[];
+  expenseByCategory: CategoryTotal[];
+  debtors: DebtBalance[];
+  transactions: Transaction[]; // Single entries, not day totals; amounts already in `currency`
+}
+
+const MARGIN = 40;
+const HEADER_FILL: [number, number, number] = [15, 23, 42]; // Tailwind slate-900
+
+// jspdf-autotable records where the last table ended on the document instance.
+const endOfLastTable = (doc: jsPDF): number => (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? MARGIN;
+
+const sectionTitle = (doc: jsPDF, title: string, y: number): number => {
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.text(title, MARGIN, y);
+  return y + 8;
+};
+
+const categoryTable = (doc: jsPDF, title: string, rows: CategoryTotal[], total: number, currency: string, y: number) => {
+  autoTable(doc, {
+    startY: sectionTitle(doc, title, y),
+    head: [['Category', 'Amount', 'Share']],
+    body: rows.length
+      ? rows.map(r => [r.category, formatMoney(r.amount, currency), total ? `${Math.round((r.amount / total) * 100)}%` : '-'])
+      : [['No entries', '', '']],
+    foot: [['Total', formatMoney(total, currency), '']],
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [241, 245, 249], textColor: 15 },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+  return endOfLastTable(doc) + 28;
+};
+
+/**
+ * Lays out the Business Audit as a PDF suitable for handing to a bank or SACCO.
+ */
+export const buildReportPdf = (report: BusinessReport): Blob => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const { currency } = report;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(report.businessName, MARGIN, 56);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.setTextColor(100);
+  doc.text(`Business Report — ${report.periodLabel}`, MARGIN, 76);
+  doc.text(`Generated ${new Date().toLocaleString()}`, MARGIN, 92);
+  doc.setTextColor(0);
+
+  autoTable(doc, {
+    startY: 112,
+    head: [['Total Inflow', 'Total Outflow', 'Net Cash Position']],
+    body: [[formatMoney(report.totalIn, currency), formatMoney(report.totalOut, currency), formatMoney(report.net, currency)]],
+    headStyles: { fillColor: HEADER_FILL },
+    bodyStyles: { fontStyle: 'bold', fontSize: 12 },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+
+  let y = endOfLastTable(doc) + 28;
+  y = categoryTable(doc, 'Income by Category', report.incomeByCategory, report.totalIn, currency, y);
+  y = categoryTable(doc, 'Expenses by Category', report.expenseByCategory, report.totalOut, currency, y);
+
+  const totalOwed = report.debtors.reduce((sum, d) => sum + d.balance, 0);
+  autoTable(doc, {
+    startY: sectionTitle(doc, 'Debtors', y),
+    head: [['Customer', 'Balance Owed']],
+    body: report.debtors.length ? report.debtors.map(d => [d.name, formatMoney(d.balance, currency)]) : [['No outstanding balances', '']],
+    foot: [['Total', formatMoney(totalOwed, currency)]],
+    headStyles: { fillColor: HEADER_FILL },
+    footStyles: { fillColor: [241, 245, 249], textColor: 15 },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+
+  doc.addPage();
+  autoTable(doc, {
+    startY: sectionTitle(doc, 'Appendix: Transactions', MARGIN + 16),
+    head: [['Date', 'Type', 'Category', 'Counterparty', 'Amount']],
+    body: report.transactions.map(tx => [
+      new Date(tx.date).toLocaleDateString(),
+      tx.type.replace('_', ' '),
+      tx.category,
+      tx.counterparty || '',
+      formatMoney(tx.amount, currency),
+    ]),
+    headStyles: { fillColor: HEADER_FILL },
+    styles: { fontSize: 9 },
+    margin: { left: MARGIN, right: MARGIN },
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(9);
+    doc.setTextColor(150);
+    doc.text(`${report.businessName} • Page ${i} of ${pages}`, MARGIN, doc.internal.pageSize.getHeight() - 20);
+  }
+
+  return doc.output('blob');
+};
@@ -0,0 +1,27 @@
+import { AppTab, Role } from "../types";
+
+export type Action = 'edit' | 'void' | 'export' | 'import' | 'report' | 'settle' | 'manageStock' | 'manageTeam' | 'manageSettings';
+
+/**
+ * Owners can do everything; managers everything but the team itself. Attendants record sales
+ * and see what they recorded, nothing more.
+ */
+const TABS: Record<Role, AppTab[]> = {
+  owner: ['dashboard', 'history', 'record', 'debts', 'inventory', 'settings'],
+  manager: ['dashboard', 'history', 'record', 'debts', 'inventory', 'settings'],
+  attendant: ['history', 'record', 'settings'],
+};
+
+const ACTIONS: Record<Role, Action[]> = {
+  owner: ['edit', 'void', 'export', 'import', 'report', 'settle', 'manageStock', 'manageTeam', 'manageSettings'],
+  manager: ['edit', 'void', 'export', 'import', 'report', 'settle', 'manageStock', 'manageSettings'],
+  attendant: [],
+};
+
+export const ROLES: Role[] = ['owner', 'manager', 'attendant'];
+
+export const canOpen = (role: Role, tab: AppTab): boolean => TABS[role].includes(tab);
+
+export const can = (role: Role, action: Action): boolean => ACTIONS[role].includes(action);
+
+export const homeTab = (role: Role): AppTab => TABS[role][0];
@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Transaction, TransactionType } from '../types';
+import { answerQuery } from './queryEngine';
+
+// Wednesday 18 March 2026, mid-morning.
+const NOW = new Date(2026, 2, 18, 10);
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const sale = (id: string, amount: number, date: Date, entryCount?: number): Transaction => ({
+  id, type: TransactionType.INCOME, amount, category: 'Sales', date: date.toISOString(), entryCount,
+});
+
+describe('answerQuery', () => {
+  it('counts the entries behind day totals', () => {
+    const transactions = [
+      sale('summary:2026-02-03', 12000, new Date(2026, 1, 3, 18), 4),
+      sale('summary:2026-02-10', 6000, new Date(2026, 1, 10, 18), 3),
+      sale('a', 1000, new Date(2026, 2, 17, 9)),
+    ];
+    const reply = answerQuery({ intent: 'QUERY', type: TransactionType.INCOME, queryRange: 'last_month', rawText: 'how much did I sell last month' }, transactions, 'UGX');
+    expect(reply.answer).toMatch(/in sales last month \(7 entries\)\.$/);
+    expect(reply.matches).toHaveLength(2);
+  });
+
+  it('counts single entries one each', () => {
+    const reply = answerQuery({ intent: 'QUERY', type: TransactionType.INCOME, queryRange: 'today', rawText: 'sales today' }, [sale('a', 1000, new Date(2026, 2, 18, 9))], 'UGX');
+    expect(reply.answer).toMatch(/\(1 entry\)\.$/);
+  });
+});
@@ -0,0 +1,138 @@
+import { ParseResult, QueryAnswer, QueryRange, Transaction, TransactionType } from "../types";
+import {
+  DateRange,
+  ReportPeriod,
+  addDays,
+  formatRangeLabel,
+  isInRange,
+  resolveNamedMonth,
+  resolvePeriod
+} from './dates';
+import { counterpartyKey, debtKindOf, getStatementLines } from './debts';
+import { totalInflow, totalOutflow } from './ledger';
+import { formatMoney } from './currency';
+
+const format = (amount: number, currency: string) => formatMoney(amount, currency || undefined);
+
+const sameName = (a?: string, b?: string) =>
+  !!a && !!b && counterpartyKey(a) === counterpartyKey(b);
+
+const sumOf = (txs: Transaction[], ...types: TransactionType[]) =>
+  txs.filter(t => types.includes(t.type)).reduce((sum, t) => sum + t.amount, 0);
+
+const closingBalance = (transactions: Transaction[], key: string, kind: 'receivable' | 'payable') => {
+  const lines = getStatementLines(transactions, key, kind);
+  return lines.length ? lines[lines.length - 1].balance : 0;
+};
+
+// Query ranges map onto report periods but keep conversational labels.
+const QUERY_PERIODS: Partial<Record<QueryRange, [ReportPeriod, string]>> = {
+  today: ['today', 'today'],
+  yesterday: ['yesterday', 'yesterday'],
+  week: ['this_week', 'this week'],
+  last_week: ['last_week', 'last week'],
+  month: ['this_month', 'this month'],
+  last_month: ['last_month', 'last month'],
+  year: ['this_year', 'this year'],
+};
+
+export const resolveQueryRange = (query: ParseResult, weekStartsOn = 1, now = new Date()): DateRange | null => {
+  if (query.queryMonth) {
+    const month = resolveNamedMonth(query.queryMonth, now);
+    if (month) return { ...month, label: `in ${month.label}` };
+  }
+
+  if (query.queryRange === 'custom') {
+    if (!query.queryStart && !query.queryEnd) return null;
+    const range = resolvePeriod('custom', { from: query.queryStart || '1970-01-01', to: query.queryEnd, now });
+    const label = !query.queryStart
+      ? `up to ${formatRangeLabel(addDays(range.end, -1), range.end)}`
+      : query.queryEnd
+        ? `for ${range.label}`
+        : `since ${formatRangeLabel(range.start, addDays(range.start, 1))}`;
+    return { ...range, label };
+  }
+
+  const mapped = query.queryRange && QUERY_PERIODS[query.queryRange];
+  if (!mapped) return null;
+  return { ...resolvePeriod(mapped[0], { weekStartsOn, now }), label: mapped[1] };
+};
+
+/**
+ * Computes the answer to a QUERY intent over the ledger. Counterparty questions report the
+ * all-time balance; everything else is totalled over the requested range.
+ */
+export const answerQuery = (query: ParseResult, transactions: Transaction[], currency: string, weekStartsOn = 1): QueryAnswer => {
+  const question = query.rawText;
+
+  const kind = debtKindOf(query.type);
+  if (query.counterparty && (!query.type || kind)) {
+    const name = query.counterparty.trim();
+    const key = counterpartyKey(name);
+    const matches = transactions.filter(t => sameName(t.counterparty, name));
+    const owedToUs = kind === 'payable' ? 0 : closingBalance(transactions, key, 'receivable');
+    const weOwe = kind === 'receivable' ? 0 : closingBalance(transactions, key, 'payable');
+    const parts = [
+      owedToUs > 0 ? `${name} owes you ${format(owedToUs, currency)}.` : '',
+      weOwe > 0 ? `You owe ${name} ${format(weOwe, currency)}.` : ''
+    ].filter(Boolean);
+    const answer = parts.length > 0
+      ? parts.join(' ')
+      : matches.length === 0
+        ? `There are no records for ${name}.`
+        : `There is no outstanding balance with ${name}.`;
+    return { question, answer, matches };
+  }
+
+  const range = resolveQueryRange(query, weekStartsOn);
+  const category = query.category?.trim().toLowerCase();
+  const matches = transactions.filter(t =>
+    (!range || isInRange(t.date, range)) &&
+    (!category || t.category.toLowerCase().includes(category)) &&
+    (!query.counterparty || sameName(t.counterparty, query.counterparty))
+  );
+  const when = range ? ` ${range.label}` : '';
+  const on = query.category ? ` on ${query.category}` : '';
+  // Older entries arrive as day totals, each standing for `entryCount` entries.
+  const entries = (txs: Transaction[]) => {
+    const n = txs.reduce((count, t) => count + (t.entryCount ?? 1), 0);
+    return `${n} ${n === 1 ? 'entry' : 'entries'}`;
+  };
+
+  switch (query.type) {
+    case TransactionType.INCOME: {
+      const sales = matches.filter(t => t.type === TransactionType.INCOME);
+      return { question, answer: `You made ${format(sumOf(sales, TransactionType.INCOME), currency)} in sales${on}${when} (${entries(sales)}).`, matches: sales };
+    }
+    case TransactionType.EXPENSE: {
+      const spent = matches.filter(t => t.type === TransactionType.EXPENSE);
+      return { question, answer: `You spent ${format(sumOf(spent, TransactionType.EXPENSE), currency)}${on}${when} (${entries(spent)}).`, matches: spent };
+    }
+    case TransactionType.DEBT: {
+      const credit = matches.filter(t => t.type === TransactionType.DEBT);
+      return { question, answer: `You gave ${format(sumOf(credit, TransactionType.DEBT), currency)} on credit${when} (${entries(credit)}).`, matches: credit };
+    }
+    case TransactionType.DEBT_PAYMENT: {
+      const repaid = matches.filter(t => t.type === TransactionType.DEBT_PAYMENT);
+      return { question, answer: `You collected ${format(sumOf(repaid, TransactionType.DEBT_PAYMENT), currency)} in debt payments${when} (${entries(repaid)}).`, matches: repaid };
+    }
+    case TransactionType.CREDIT_PURCHASE: {
+      const bought = matches.filter(t => t.type === TransactionType.CREDIT_PURCHASE);
+      return { question, answer: `You bought ${format(sumOf(bought, TransactionType.CREDIT_PURCHASE), currency)} on credit${when} (${entries(bought)}).`, matches: bought };
+    }
+    case TransactionType.PAYABLE_PAYMENT: {
+      const paid = matches.filter(t => t.type === TransactionType.PAYABLE_PAYMENT);
+      return { question, answer: `You paid suppliers ${format(sumOf(paid, TransactionType.PAYABLE_PAYMENT), currency)}${when} (${entries(paid)}).`, matches: paid };
+    }
+    default: {
+      const totalIn = totalInflow(matches);
+      const totalOut = totalOutflow(matches);
+      const period = range ? range.label.charAt(0).toUpperCase() + range.label.slice(1) : 'All time';
+      return {
+        question,
+        answer: `${period}: ${format(totalIn, currency)} in, ${format(totalOut, currency)} out, net ${format(totalIn - totalOut, currency)}.`,
+        matches
+      };
+    }
+  }
+};
@@ -0,0 +1,97 @@
+import { DueEntry, ParseResult, RecurringTemplate, Schedule, Transaction, TransactionType } from "../types";
+import { addDays, startOfDay, toDateInputValue, withLocalDate } from "./dates";
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Caps how far back a long-unopened app catches up, so a template never floods the approval list.
+const MAX_DUE_PER_TEMPLATE = 12;
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+};
+
+export const describeSchedule = ({ frequency, day }: Schedule): string =>
+  frequency === 'weekly' ? `Every ${WEEKDAY_NAMES[day]}` : `Monthly on the ${ordinal(day)}`;
+
+const dayOfMonth = (year: number, month: number, day: number): Date =>
+  new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+/**
+ * The first occurrence on or after the day of `from`.
+ */
+export const nextOccurrence = ({ frequency, day }: Schedule, from: Date): Date => {
+  const start = startOfDay(from);
+  if (frequency === 'weekly') return addDays(start, (day - start.getDay() + 7) % 7);
+  const thisMonth = dayOfMonth(start.getFullYear(), start.getMonth(), day);
+  return thisMonth >= start ? thisMonth : dayOfMonth(start.getFullYear(), start.getMonth() + 1, day);
+};
+
+/**
+ * Occurrences of an active template that have fallen due by `now` and were not yet recorded
+ * or skipped, oldest first.
+ */
+export const dueOccurrences = (template: RecurringTemplate, now = new Date()): Date[] => {
+  if (!template.active) return [];
+  const from = template.handledThrough
+    ? addDays(startOfDay(new Date(template.handledThrough)), 1)
+    : startOfDay(new Date(template.startsOn));
+  const due: Date[] = [];
+  for (let next = nextOccurrence(template.schedule, from); next <= now; next = nextOccurrence(template.schedule, addDays(next, 1))) {
+    due.push(next);
+  }
+  return due.slice(-MAX_DUE_PER_TEMPLATE);
+};
+
+export const dueEntries = (templates: RecurringTemplate[], now = new Date()): DueEntry[] =>
+  templates
+    .flatMap(template => dueOccurrences(template, now).map(date => ({
+      key: `${template.id}:${toDateInputValue(date.toISOString())}`,
+      template,
+      dueDate: date.toISOString()
+    })))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+/**
+ * The transaction an occurrence records, dated on its due day at the current time.
+ */
+export const entryFor = ({ template, dueDate }: DueEntry): Omit<Transaction, 'id'> => ({
+  type: template.type,
+  amount: template.amount,
+  currency: template.currency,
+  category: template.category,
+  counterparty: template.counterparty,
+  note: template.note,
+  date: withLocalDate(new Date().toISOString(), toDateInputValue(dueDate))
+});
+
+export const newTemplate = (currency: string, now = new Date()): RecurringTemplate => ({
+  id: crypto.randomUUID(),
+  type: TransactionType.EXPENSE,
+  amount: 0,
+  currency,
+  category: 'General',
+  schedule: { frequency: 'monthly', day: now.getDate() },
+  startsOn: startOfDay(now).toISOString(),
+  active: true
+});
+
+/**
+ * Turns a RECURRING parse result into a template to confirm. Without a schedule day the
+ * template repeats on today's weekday or date.
+ */
+export const templateFromParse = (result: ParseResult, currency: string, now = new Date()): RecurringTemplate | null => {
+  const entry = result.entries?.[0];
+  if (!entry?.amount) return null;
+  const frequency = result.schedule?.frequency === 'weekly' ? 'weekly' : 'monthly';
+  const day = result.schedule?.day ?? (frequency === 'weekly' ? now.getDay() : now.getDate());
+  return {
+    ...newTemplate(currency, now),
+    type: entry.type || TransactionType.EXPENSE,
+    amount: entry.amount,
+    currency: entry.currency?.toUpperCase() || currency,
+    category: entry.category?.trim() || 'General',
+    counterparty: entry.counterparty,
+    schedule: { frequency, day }
+  };
+};
@@ -0,0 +1,56 @@
+/**
+ * Shares text through the Web Share API, falling back to the clipboard where it is unavailable.
+ * Returns false if neither worked (or the user dismissed the share sheet).
+ */
+export const shareText = async (title: string, text: string): Promise<boolean> => {
+  try {
+    if (navigator.share) {
+      await navigator.share({ title, text });
+      return true;
+    }
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (err) {
+    console.error("Share error:", err);
+    return false;
+  }
+};
+
+/**
+ * Opens a print dialog for a plain-text document in its own window.
+ */
+export const printText = (title: string, text: string) => {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  win.document.write(`<html><head><title>${escape(title)}</title></head><body><pre style="font-family: monospace; font-size: 14px;">${escape(text)}</pre></body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Shares a file through the Web Share API where the browser supports files, otherwise downloads it.
+ */
+export const shareFile = async (blob: Blob, fileName: string, title: string): Promise<void> => {
+  const file = new File([blob], fileName, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return;
+    } catch (err: any) {
+      if (err?.name === 'AbortError') return;
+      console.error("Share error:", err);
+    }
+  }
+  downloadBlob(blob, fileName);
+};
@@ -0,0 +1,189 @@
+import * as XLSX from 'xlsx';
+import { Transaction, TransactionType } from "../types";
+import { counterpartyKey } from './debts';
+import { addDays, startOfDay, toDateInputValue } from './dates';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ImportField = 'date' | 'type' | 'amount' | 'currency' | 'category' | 'counterparty' | 'note';
+
+// Spreadsheet column chosen for each ledger field.
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportRow {
+  row: number; // 1-based spreadsheet row, counting the header
+  transaction?: Omit<Transaction, 'id'>;
+  errors: string[];
+  duplicate: boolean;
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = ['date', 'type', 'amount', 'currency', 'category', 'counterparty', 'note'];
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'day', 'transaction date', 'time', 'created'],
+  type: ['type', 'kind', 'transaction type', 'direction'],
+  amount: ['amount', 'value', 'total', 'sum', 'price'],
+  currency: ['currency', 'ccy'],
+  category: ['category', 'account', 'group'],
+  counterparty: ['counterparty', 'customer', 'supplier', 'name', 'party', 'payee', 'client'],
+  note: ['note', 'notes', 'description', 'details', 'memo', 'narration'],
+};
+
+const TYPE_ALIASES: Record<string, TransactionType> = {
+  income: TransactionType.INCOME,
+  sale: TransactionType.INCOME,
+  sales: TransactionType.INCOME,
+  in: TransactionType.INCOME,
+  expense: TransactionType.EXPENSE,
+  expenses: TransactionType.EXPENSE,
+  spend: TransactionType.EXPENSE,
+  out: TransactionType.EXPENSE,
+  debt: TransactionType.DEBT,
+  'credit sale': TransactionType.DEBT,
+  'debt payment': TransactionType.DEBT_PAYMENT,
+  repayment: TransactionType.DEBT_PAYMENT,
+  'credit purchase': TransactionType.CREDIT_PURCHASE,
+  'payable payment': TransactionType.PAYABLE_PAYMENT,
+};
+
+const toSheetRows = (transactions: Transaction[]) => transactions.map(tx => ({
+  Date: toDateInputValue(tx.date),
+  Type: tx.type,
+  Amount: tx.amount,
+  Currency: tx.currency || '',
+  Category: tx.category,
+  Counterparty: tx.counterparty || '',
+  Note: tx.note || '',
+}));
+
+/**
+ * Downloads the transactions as a CSV or XLSX file.
+ */
+export const exportLedger = (transactions: Transaction[], format: ExportFormat, fileName: string) => {
+  const sheet = XLSX.utils.json_to_sheet(toSheetRows(transactions));
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Ledger');
+  XLSX.writeFile(book, `${fileName}.${format}`, { bookType: format });
+};
+
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const book = XLSX.read(await file.arrayBuffer(), { cellDates: true });
+  const sheet = book.Sheets[book.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '' });
+  const headers = (XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1 })[0] || []).map(String);
+  return { headers, rows };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(field => {
+    const match = headers.find(h => HEADER_ALIASES[field].includes(h.trim().toLowerCase()));
+    if (match) mapping[field] = match;
+  });
+  return mapping;
+};
+
+const parseAmount = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const cleaned = String(value).replace(/[^\d.\-]/g, '');
+  return cleaned ? Number(cleaned) : NaN;
+};
+
+// Day-first for slashed dates, as written across East Africa.
+const parseDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  const text = String(value).trim();
+  if (!text) return null;
+  const dayFirst = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/.exec(text);
+  if (dayFirst) {
+    const year = Number(dayFirst[3]) < 100 ? 2000 + Number(dayFirst[3]) : Number(dayFirst[3]);
+    return new Date(year, Number(dayFirst[2]) - 1, Number(dayFirst[1]), 12);
+  }
+  const parsed = new Date(text);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+const parseType = (value: unknown): TransactionType | null => {
+  const text = String(value).trim();
+  if (!text) return null;
+  const upper = text.toUpperCase().replace(/\s+/g, '_');
+  if ((Object.values(TransactionType) as string[]).includes(upper)) return upper as TransactionType;
+  return TYPE_ALIASES[text.toLowerCase()] || null;
+};
+
+const duplicateKey = (tx: Omit<Transaction, 'id'>) => [
+  toDateInputValue(tx.date),
+  tx.type,
+  tx.amount,
+  tx.counterparty ? counterpartyKey(tx.counterparty) : tx.category.trim().toLowerCase(),
+].join('|');
+
+/**
+ * Turns spreadsheet rows into transactions, collecting per-row validation errors and flagging
+ * rows that match an existing entry (or an earlier row in the file) on day, type, amount and party.
+ */
+export const mapImportRows = (
+  data: SpreadsheetData,
+  mapping: ColumnMapping,
+  baseCurrency: string,
+  existing: Transaction[]
+): ImportRow[] => {
+  const seen = new Set(existing.map(duplicateKey));
+  const cell = (raw: Record<string, unknown>, field: ImportField) => mapping[field] ? raw[mapping[field]!] ?? '' : '';
+
+  return data.rows.map((raw, i) => {
+    const errors: string[] = [];
+
+    const signedAmount = parseAmount(cell(raw, 'amount'));
+    if (!Number.isFinite(signedAmount) || signedAmount === 0) errors.push('Amount is missing or not a number');
+
+    const date = parseDate(cell(raw, 'date'));
+    if (!date) errors.push('Date is missing or not recognised');
+
+    // Without a type column, the sign of the amount decides between money in and money out.
+    const typeCell = cell(raw, 'type');
+    const type = mapping.type ? parseType(typeCell) : signedAmount < 0 ? TransactionType.EXPENSE : TransactionType.INCOME;
+    if (!type) errors.push(`Unknown type "${String(typeCell)}"`);
+
+    const counterparty = String(cell(raw, 'counterparty')).trim();
+    if ((type === TransactionType.DEBT || type === TransactionType.DEBT_PAYMENT || type === TransactionType.CREDIT_PURCHASE || type === TransactionType.PAYABLE_PAYMENT) && !counterparty) {
+      errors.push('Credit entries need a counterparty');
+    }
+
+    if (errors.length > 0 || !date || !type) return { row: i + 2, errors, duplicate: false };
+
+    const transaction: Omit<Transaction, 'id'> = {
+      type,
+      amount: Math.abs(signedAmount),
+      currency: String(cell(raw, 'currency')).trim().toUpperCase() || baseCurrency,
+      category: String(cell(raw, 'category')).trim() || 'General',
+      counterparty: counterparty || undefined,
+      note: String(cell(raw, 'note')).trim() || undefined,
+      date: date.toISOString(),
+    };
+    const key = duplicateKey(transaction);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { row: i + 2, transaction, errors, duplicate };
+  });
+};
+
+/**
+ * The days the file's rows fall on under `mapping`, as an ISO range (`to` exclusive), or null
+ * when no row has a date. Duplicates are looked for among the entries of these days.
+ */
+export const importDateRange = (data: SpreadsheetData, mapping: ColumnMapping): { from: string; to: string } | null => {
+  const times = mapImportRows(data, mapping, '', [])
+    .flatMap(r => r.transaction ? [new Date(r.transaction.date).getTime()] : []);
+  if (times.length === 0) return null;
+  return {
+    from: startOfDay(new Date(Math.min(...times))).toISOString(),
+    to: addDays(startOfDay(new Date(Math.max(...times))), 1).toISOString(),
+  };
+};
@@ -1,31 +1,766 @@
 
 import { supabase } from '../services/supabase';
-import { Transaction, User, TransactionType } from "../types";
+import {
+  Transaction,
+  TransactionType,
+  TransactionChanges,
+  TransactionSnapshot,
+  TransactionRevision,
+  User,
+  HistoryFilter,
+  SyncSummary,
+  Product,
+  RecurringTemplate,
+  Category,
+  Invoice,
+  PaymentReceipt,
+  Member,
+  Role,
+  LineItem,
+  InvoiceLine,
+  CategoryKind,
+  CorrectableField,
+  Schedule
+} from "../types";
+import {
+  QueuedTransaction,
+  createTransactionId,
+  isLocalId,
+  putQueuedTransaction,
+  putQueuedTransactions,
+  getQueuedTransaction,
+  getQueuedTransactions,
+  removeQueuedTransaction,
+  putLocalReceipt,
+  getLocalReceipt,
+  getLocalReceiptPaths,
+  removeLocalReceipt,
+  getLocalSetting,
+  putLocalSetting
+} from './localStore';
+import { addDays, startOfDay } from './dates';
+import { defaultCategories } from './categories';
 
-export const getStoredTransactions = async (userId: string): Promise<Transaction[]> => {
-  const { data, error } = await supabase
+const RECEIPT_BUCKET = 'receipts';
+const DOCUMENT_BUCKET = 'documents';
+const LEDGER_CACHE = 'ledger';
+
+// Entries this recent are loaded one by one; older ones arrive as day totals (see getLedgerSummary).
+export const RECENT_DAYS = 14;
+export const PAGE_SIZE = 50;
+
+// Who is writing and which business ledger they write to.
+type LedgerUser = Pick<User, 'id' | 'businessId' | 'role'>;
+
+export interface SyncedTransaction {
+  localId: string;
+  transaction: Transaction;
+}
+
+export interface SyncResult {
+  synced: SyncedTransaction[];
+  summary: SyncSummary;
+}
+
+export interface PageCursor {
+  date: string;
+  id: string;
+}
+
+export interface LedgerPage {
+  transactions: Transaction[];
+  cursor: PageCursor | null; // Unset after the last page
+}
+
+export interface CachedLedger {
+  user: User;
+  since: string;
+  transactions: Transaction[];
+}
+
+export type LedgerChange =
+  | { kind: 'upsert'; transaction: Transaction }
+  | { kind: 'delete'; id: string };
+
+// A `transactions` row as Supabase returns it.
+interface TransactionRow {
+  id: string;
+  user_id: string;
+  business_id: string | null;
+  type: TransactionType;
+  amount: number;
+  currency: string | null;
+  category: string;
+  counterparty: string | null;
+  note: string | null;
+  items: LineItem[] | null;
+  date: string;
+  receipt_path: string | null;
+  voided_at: string | null;
+  revisions: TransactionRevision[] | null;
+  recorded_by: string | null;
+  corrections: CorrectableField[] | null;
+  updated_at: string | null;
+}
+
+// One row of the `ledger_summary` function, see supabase/ledger_summary.sql.
+interface LedgerSummaryRow {
+  day: string;
+  type: TransactionType;
+  currency: string | null;
+  category: string | null;
+  counterparty: string | null;
+  amount: number;
+  entry_count: number;
+  last_date: string;
+  items: LineItem[] | null;
+}
+
+const toRow = ({ id, syncStatus, userId, businessId, operation, lastError, queuedAt, receiptPath, voidedAt, recordedBy, updatedAt, ...row }: QueuedTransaction) => ({
+  ...row,
+  ...(isLocalId(id) ? {} : { id }),
+  receipt_path: receiptPath ?? null,
+  voided_at: voidedAt ?? null,
+  recorded_by: recordedBy ?? userId,
+  business_id: businessId ?? userId,
+  user_id: userId
+});
+
+const fromRow = (row: TransactionRow): Transaction => ({
+  id: row.id,
+  type: row.type,
+  amount: row.amount,
+  currency: row.currency ?? undefined,
+  category: row.category,
+  counterparty: row.counterparty ?? undefined,
+  note: row.note ?? undefined,
+  items: row.items ?? undefined,
+  date: row.date,
+  receiptPath: row.receipt_path ?? undefined,
+  voidedAt: row.voided_at ?? undefined,
+  revisions: row.revisions ?? undefined,
+  recordedBy: row.recorded_by ?? row.user_id,
+  corrections: row.corrections ?? undefined,
+  updatedAt: row.updated_at ?? undefined
+});
+
+const queueFields = (user: LedgerUser) => ({ syncStatus: 'pending' as const, userId: user.id, businessId: user.businessId });
+
+const isNetworkError = (error: { message?: string }) =>
+  !navigator.onLine || /fetch|network/i.test(error.message || '');
+
+const summarize = (entries: QueuedTransaction[]): SyncSummary => ({
+  pending: entries.filter(e => e.syncStatus !== 'failed').length,
+  failed: entries.filter(e => e.syncStatus === 'failed').length,
+});
+
+const stripQueueFields = ({ userId, businessId, operation, lastError, queuedAt, ...tx }: QueuedTransaction): Transaction => tx;
+
+// ilike treats %, _ and \ as pattern characters; escaped, a name matches only itself, ignoring case.
+const likeExactly = (text: string) => text.replace(/[\\%_]/g, '\\$&');
+
+export const ledgerSince = (now = new Date()): string => addDays(startOfDay(now), -RECENT_DAYS).toISOString();
+
+// The business ledger; attendants only get the entries they recorded themselves, which the
+// row-level policies in supabase/schema.sql enforce as well.
+const ledgerQuery = (user: LedgerUser) => {
+  const query = supabase
     .from('transactions')
     .select('*')
-    .eq('user_id', userId)
+    // Rows from before team accounts carry only the owner's user_id, which is also the business id.
+    .or(`business_id.eq.${user.businessId},and(business_id.is.null,user_id.eq.${user.businessId})`);
+  return user.role === 'attendant' ? query.eq('recorded_by', user.id) : query;
+};
+
+/**
+ * Loads the entries dated from `since` on, together with everything still in the outbox.
+ */
+export const getStoredTransactions = async (user: LedgerUser, since: string): Promise<Transaction[]> => {
+  // Read the outbox before the server: an entry replayed in between is then in both lists under
+  // the same id, rather than in neither.
+  const queued = await getQueuedTransactions(user.id).catch(err => {
+    console.error("Outbox read error:", err);
+    return [] as QueuedTransaction[];
+  });
+
+  const { data, error } = await ledgerQuery(user)
+    .gte('date', since)
     .order('date', { ascending: false });
 
-  if (error) {
-    console.error("Fetch error:", error);
-    return [];
+  if (error) console.error("Fetch error:", error);
+
+  // Queued edits win over the server copy of the same row.
+  const merged = new Map((data || []).map(row => {
+    const tx = fromRow(row);
+    return [tx.id, tx];
+  }));
+  queued
+    // An older synced row is already counted in the day totals until its edit is replayed.
+    .filter(entry => entry.operation !== 'update' || entry.date >= since)
+    .forEach(entry => merged.set(entry.id, stripQueueFields(entry)));
+
+  return [...merged.values()].sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * Day totals of the entries dated before `before`, one per type, currency, category and
+ * counterparty, with their line items summed per product. Totals, balances, charts and stock
+ * levels come out the same as from the entries themselves without downloading them.
+ */
+export const getLedgerSummary = async (user: LedgerUser, before: string): Promise<Transaction[]> => {
+  const { data, error } = await supabase.rpc('ledger_summary', {
+    p_business_id: user.businessId,
+    p_before: before,
+    p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    p_recorded_by: user.role === 'attendant' ? user.id : null
+  });
+
+  if (error) throw error;
+  return ((data || []) as LedgerSummaryRow[]).map((row): Transaction => ({
+    id: `summary:${row.day}:${row.type}:${row.currency ?? ''}:${row.category ?? ''}:${row.counterparty ?? ''}`,
+    type: row.type,
+    amount: Number(row.amount),
+    currency: row.currency ?? undefined,
+    category: row.category ?? '',
+    counterparty: row.counterparty || undefined,
+    items: row.items ?? undefined,
+    date: new Date(row.last_date).toISOString(),
+    entryCount: Number(row.entry_count)
+  }));
+};
+
+/**
+ * One page of entries, newest first, matching the filter server-side. Pass the returned cursor
+ * to get the next page; `before` leaves out entries that are already loaded.
+ */
+export const getTransactionsPage = async (
+  user: LedgerUser,
+  filter: HistoryFilter | null,
+  cursor: PageCursor | null,
+  before?: string
+): Promise<LedgerPage> => {
+  let query = ledgerQuery(user);
+  if (before) query = query.lt('date', before);
+  // Keyset paging: strictly after the cursor in (date, id) order, so rows sharing a timestamp
+  // are never fetched twice and the cursor always moves.
+  if (cursor) query = query.or(`date.lt."${cursor.date}",and(date.eq."${cursor.date}",id.lt."${cursor.id}")`);
+  if (filter?.category) query = query.ilike('category', likeExactly(filter.category));
+  if (filter?.counterparty) query = query.ilike('counterparty', likeExactly(filter.counterparty.trim()));
+  if (filter?.types) query = query.in('type', filter.types);
+  if (filter?.recordedBy) query = query.eq('recorded_by', filter.recordedBy);
+  if (filter?.from) query = query.gte('date', filter.from);
+  if (filter?.to) query = query.lt('date', filter.to);
+
+  const { data, error } = await query
+    .order('date', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(PAGE_SIZE);
+
+  if (error) throw error;
+  const rows = data || [];
+  const last = rows[rows.length - 1];
+  return {
+    transactions: rows.map(fromRow),
+    cursor: rows.length === PAGE_SIZE ? { date: last.date, id: last.id } : null
+  };
+};
+
+/**
+ * Writes `currency` onto the business's entries recorded before currencies were tracked, on the
+ * server and in the outbox, so they keep their value when the base currency changes.
+ */
+export const stampLedgerCurrency = async (user: LedgerUser, currency: string): Promise<void> => {
+  const { error } = await supabase
+    .from('transactions')
+    .update({ currency })
+    .or(`business_id.eq.${user.businessId},and(business_id.is.null,user_id.eq.${user.businessId})`)
+    .is('currency', null);
+  if (error) throw error;
+
+  const unstamped = (await getQueuedTransactions(user.id)).filter(entry => !entry.currency);
+  if (unstamped.length > 0) await putQueuedTransactions(unstamped.map(entry => ({ ...entry, currency })));
+};
+
+export const getAllTransactions = async (user: LedgerUser, filter: HistoryFilter | null): Promise<Transaction[]> => {
+  const all: Transaction[] = [];
+  let cursor: PageCursor | null = null;
+  do {
+    const page: LedgerPage = await getTransactionsPage(user, filter, cursor);
+    all.push(...page.transactions);
+    cursor = page.cursor;
+  } while (cursor);
+  return all;
+};
+
+/**
+ * The last loaded ledger, so the dashboard can open before the network answers.
+ */
+export const getCachedLedger = (userId: string): Promise<CachedLedger | undefined> =>
+  getLocalSetting<CachedLedger>(userId, LEDGER_CACHE);
+
+export const cacheLedger = (ledger: CachedLedger): Promise<void> =>
+  putLocalSetting(ledger.user.id, LEDGER_CACHE, {
+    ...ledger,
+    // Outbox entries are read from the outbox itself.
+    transactions: ledger.transactions.filter(t => !t.syncStatus)
+  });
+
+/**
+ * Accepts the transaction on this device straight away. The returned entry already has its
+ * row id and carries `syncStatus: 'pending'` until `syncPendingTransactions` replays it.
+ */
+export const saveTransaction = async (user: LedgerUser, tx: Omit<Transaction, 'id'>): Promise<Transaction> => {
+  const queued: QueuedTransaction = { ...tx, id: createTransactionId(), recordedBy: user.id, ...queueFields(user) };
+  await putQueuedTransaction(queued);
+  return stripQueueFields(queued);
+};
+
+const uploadReceipt = async (path: string) => {
+  const image = await getLocalReceipt(path);
+  if (!image) return null; // Already uploaded by an earlier run
+
+  const { error } = await supabase.storage
+    .from(RECEIPT_BUCKET)
+    .upload(path, image, { contentType: image.type, upsert: true });
+
+  if (error) return error;
+  await removeLocalReceipt(path);
+  return null;
+};
+
+// Receipt images are uploaded after the entries rather than before them, so an image that can't
+// be uploaded doesn't hold its entry back. Until then it stays on the device, where
+// getReceiptUrl finds it, and the next sync tries again.
+const uploadLocalReceipts = async () => {
+  for (const path of await getLocalReceiptPaths()) {
+    const error = await uploadReceipt(path);
+    if (!error) continue;
+    if (isNetworkError(error)) return;
+    console.error("Receipt upload error:", error);
   }
-  return data as Transaction[];
 };
 
-export const saveTransaction = async (userId: string, tx: Omit<Transaction, 'id'>): Promise<string> => {
+const pushQueuedTransaction = async (entry: QueuedTransaction): Promise<{ data: TransactionRow[] | null; error: { message: string } | null }> => {
+  if (entry.operation === 'update') {
+    // Edits keep the row's original author, and only apply to the copy they were made on:
+    // no row comes back when another device has written it since.
+    const { user_id, recorded_by, ...changes } = toRow(entry);
+    const query = supabase
+      .from('transactions')
+      .update(changes)
+      .eq('id', entry.id);
+    return (entry.updatedAt ? query.eq('updated_at', entry.updatedAt) : query.is('updated_at', null)).select();
+  }
+
+  // A replay whose response was lost finds the row already there; it is read back instead of
+  // written again, so recording needs no right to update rows.
   const { data, error } = await supabase
     .from('transactions')
-    .insert([{ ...tx, user_id: userId }])
+    .upsert([toRow(entry)], { onConflict: 'id', ignoreDuplicates: true })
     .select();
+  if (error || data.length > 0 || isLocalId(entry.id)) return { data, error };
+  return supabase.from('transactions').select('*').eq('id', entry.id);
+};
 
-  if (error) throw error;
-  return data[0].id;
+const snapshot = ({ type, amount, currency, category, counterparty, note, date }: Transaction): TransactionSnapshot =>
+  ({ type, amount, currency, category, counterparty, note, date });
+
+const reviseTransaction = (tx: Transaction, action: TransactionRevision['action']): TransactionRevision[] => [
+  ...(tx.revisions || []),
+  { action, at: new Date().toISOString(), previous: snapshot(tx) }
+];
+
+/**
+ * Three-way merge of an edit made on this device with a newer server copy of the entry. Fields
+ * this device changed win and the rest keep the server's values; the server values that get
+ * overwritten are kept as a revision. A void from either side stands.
+ */
+export const mergeConflict = (remote: Transaction, local: Transaction): Transaction => {
+  const known = new Set((remote.revisions || []).map(r => r.at));
+  const ours = (local.revisions || []).filter(r => !known.has(r.at));
+  const base = ours[0]?.previous;
+  if (!base) return remote;
+
+  const mine = snapshot(local);
+  const changed = (Object.keys(mine) as (keyof TransactionSnapshot)[]).filter(key => mine[key] !== base[key]);
+  const overwritten = changed.filter(key => remote[key] !== mine[key]);
+  return {
+    ...remote,
+    ...Object.fromEntries(changed.map(key => [key, mine[key]])),
+    voidedAt: remote.voidedAt || local.voidedAt,
+    revisions: [
+      ...(remote.revisions || []),
+      ...ours,
+      ...(overwritten.length > 0 ? [{ action: 'EDIT' as const, at: new Date().toISOString(), previous: snapshot(remote) }] : [])
+    ]
+  };
 };
 
+// Re-applies a rejected edit on top of the current server copy.
+const pushMerged = async (entry: QueuedTransaction) => {
+  const { data, error } = await supabase.from('transactions').select('*').eq('id', entry.id).single();
+  if (error || !data) return { data: null, error };
+  const remote = fromRow(data);
+  return pushQueuedTransaction({ ...entry, ...mergeConflict(remote, stripQueueFields(entry)), updatedAt: remote.updatedAt });
+};
+
+const queueChange = async (user: LedgerUser, tx: Transaction): Promise<Transaction> => {
+  // An entry that never reached the server is still a pending insert, just with newer values.
+  const pending = await getQueuedTransaction(tx.id);
+  const queued: QueuedTransaction = pending && !pending.operation
+    ? { ...tx, ...queueFields(user), queuedAt: pending.queuedAt }
+    : { ...tx, ...queueFields(user), operation: 'update', queuedAt: pending?.queuedAt };
+  await putQueuedTransaction(queued);
+  return stripQueueFields(queued);
+};
+
+/**
+ * Applies corrections to a transaction, keeping the values it replaces in `revisions`.
+ */
+export const updateTransaction = (user: LedgerUser, tx: Transaction, changes: TransactionChanges): Promise<Transaction> =>
+  queueChange(user, { ...tx, ...changes, revisions: reviseTransaction(tx, 'EDIT') });
+
+/**
+ * Voids rather than deletes, so the entry and its history remain available for audit.
+ */
+export const voidTransaction = (user: LedgerUser, tx: Transaction): Promise<Transaction> =>
+  queueChange(user, { ...tx, voidedAt: new Date().toISOString(), revisions: reviseTransaction(tx, 'VOID') });
+
+export const isActiveTransaction = (tx: Transaction): boolean => !tx.voidedAt;
+
+/**
+ * Queues many transactions in one local write, e.g. from a spreadsheet import.
+ */
+export const saveTransactions = async (user: LedgerUser, txs: Omit<Transaction, 'id'>[]): Promise<Transaction[]> => {
+  const queued: QueuedTransaction[] = txs.map(tx => ({ ...tx, id: createTransactionId(), recordedBy: user.id, ...queueFields(user) }));
+  await putQueuedTransactions(queued);
+  return queued.map(stripQueueFields);
+};
+
+let syncInFlight: Promise<SyncResult> | null = null;
+
+const replayOutbox = async (userId: string, retryFailed: boolean): Promise<SyncResult> => {
+  const queued = await getQueuedTransactions(userId);
+  const synced: SyncedTransaction[] = [];
+  let offline = false;
+
+  for (const entry of queued) {
+    // A rejection won't change by itself; the entry waits to be fixed, discarded or retried.
+    if (entry.syncStatus === 'failed' && !retryFailed) continue;
+
+    let { data, error } = await pushQueuedTransaction(entry);
+    if (!error && data?.length === 0 && entry.operation === 'update') {
+      ({ data, error } = await pushMerged(entry));
+    }
+
+    if (error || !data) {
+      // Connectivity problems leave the entry pending; anything else is a real rejection.
+      if (error && isNetworkError(error)) {
+        offline = true;
+        break;
+      }
+      await putQueuedTransaction({ ...entry, syncStatus: 'failed', lastError: error?.message });
+      continue;
+    }
+
+    // Written again by another device mid-merge; the next run merges with that copy.
+    if (data.length === 0) continue;
+
+    await removeQueuedTransaction(entry.id);
+    synced.push({ localId: entry.id, transaction: fromRow(data[0]) });
+  }
+
+  if (!offline) await uploadLocalReceipts().catch(err => console.error("Receipt upload error:", err));
+  return { synced, summary: summarize(await getQueuedTransactions(userId)) };
+};
+
+/**
+ * Replays every queued transaction to Supabase in the order it was recorded, leaving out the
+ * ones Supabase rejected unless `retryFailed` is set.
+ * Concurrent callers share the same run so an entry is never inserted twice.
+ */
+export const syncPendingTransactions = (userId: string, retryFailed = false): Promise<SyncResult> => {
+  if (syncInFlight && retryFailed) return syncInFlight.then(() => syncPendingTransactions(userId, true));
+  if (!syncInFlight) {
+    syncInFlight = replayOutbox(userId, retryFailed).finally(() => {
+      syncInFlight = null;
+    });
+  }
+  return syncInFlight;
+};
+
+/**
+ * Drops a queued entry that will not sync, with its receipt photo if it was never uploaded.
+ * The server copy, if there is one, stays as it was.
+ */
+export const discardQueuedTransaction = async (userId: string, id: string): Promise<SyncSummary> => {
+  const entry = await getQueuedTransaction(id);
+  await removeQueuedTransaction(id);
+  if (entry?.receiptPath && !entry.operation) await removeLocalReceipt(entry.receiptPath);
+  return summarize(await getQueuedTransactions(userId));
+};
+
+/**
+ * Swaps queued entries for their server copies, dropping any server row that is already present.
+ */
+export const applySyncedTransactions = (transactions: Transaction[], synced: SyncedTransaction[]): Transaction[] => {
+  const replacements = new Map(synced.map(s => [s.localId, s.transaction]));
+  const seen = new Set<string>();
+  return transactions
+    .map(tx => replacements.get(tx.id) || tx)
+    .filter(tx => {
+      if (seen.has(tx.id)) return false;
+      seen.add(tx.id);
+      return true;
+    });
+};
+
+/**
+ * Streams inserts, edits and voids made to the business ledger on other devices. `onReconnect`
+ * runs when the channel comes back after a drop, since changes made meanwhile are not replayed.
+ * Returns a function that unsubscribes.
+ */
+export const subscribeToLedger = (
+  user: LedgerUser,
+  onChange: (change: LedgerChange) => void,
+  onReconnect: () => void
+): (() => void) => {
+  let joined = false;
+  const channel = supabase
+    .channel(`ledger:${user.businessId}`)
+    // Every row has a business_id once supabase/schema.sql has filled in those from before teams.
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'transactions', filter: `business_id=eq.${user.businessId}` }, payload => {
+      if (payload.eventType === 'DELETE') {
+        onChange({ kind: 'delete', id: payload.old.id });
+        return;
+      }
+      const transaction = fromRow(payload.new as TransactionRow);
+      if (user.role === 'attendant' && transaction.recordedBy !== user.id) return;
+      onChange({ kind: 'upsert', transaction });
+    })
+    .subscribe(status => {
+      if (status !== 'SUBSCRIBED') return;
+      if (joined) onReconnect();
+      joined = true;
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+/**
+ * Merges a change from another device into the list. Entries with unsynced local changes are
+ * left alone; replaying them merges with the server copy (see `mergeConflict`).
+ */
+export const applyLedgerChange = (transactions: Transaction[], change: LedgerChange): Transaction[] => {
+  if (change.kind === 'delete') return transactions.filter(t => t.id !== change.id);
+
+  const remote = change.transaction;
+  const current = transactions.find(t => t.id === remote.id);
+  if (!current) return [...transactions, remote].sort((a, b) => b.date.localeCompare(a.date));
+  if (current.syncStatus || (current.updatedAt || '') > (remote.updatedAt || '')) return transactions;
+  return transactions.map(t => t.id === remote.id ? remote : t);
+};
+
+/**
+ * Keeps the receipt image on this device and returns the storage path to link on the
+ * transaction. The image is uploaded together with the transaction when it syncs.
+ */
+// Stored under the business id, which the storage policies in supabase/schema.sql check.
+export const saveReceipt = async (businessId: string, image: Blob): Promise<string> => {
+  const extension = image.type.split('/')[1] || 'jpg';
+  const path = `${businessId}/${crypto.randomUUID()}.${extension}`;
+  await putLocalReceipt(path, image);
+  return path;
+};
+
+export const getReceiptUrl = async (path: string): Promise<string | null> => {
+  const local = await getLocalReceipt(path).catch(() => undefined);
+  if (local) return URL.createObjectURL(local);
+
+  const { data, error } = await supabase.storage
+    .from(RECEIPT_BUCKET)
+    .createSignedUrl(path, 60 * 60);
+
+  if (error) {
+    console.error("Receipt URL error:", error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+interface ProductRow {
+  id: string;
+  business_id: string;
+  name: string;
+  unit: string;
+  cost_price: number;
+  sale_price: number;
+  quantity: number;
+  counted_at: string | null;
+  low_stock_at: number;
+}
+
+const toProductRow = (businessId: string, { costPrice, salePrice, countedAt, lowStockAt, ...product }: Product): ProductRow => ({
+  ...product,
+  cost_price: costPrice,
+  sale_price: salePrice,
+  counted_at: countedAt ?? null,
+  low_stock_at: lowStockAt,
+  business_id: businessId
+});
+
+const fromProductRow = ({ business_id, cost_price, sale_price, counted_at, low_stock_at, ...row }: ProductRow): Product => ({
+  ...row,
+  costPrice: Number(cost_price),
+  salePrice: Number(sale_price),
+  countedAt: counted_at ?? undefined,
+  lowStockAt: Number(low_stock_at)
+});
+
+/**
+ * A business-wide list kept in its own Supabase table and cached on the device. Ids listed as
+ * pending were saved while Supabase was unreachable and are pushed by the next load.
+ */
+interface CachedTable<T extends { id: string }, R extends object> {
+  table: string;
+  cacheKey: string;
+  pendingKey: string;
+  toRow: (businessId: string, item: T) => R;
+  fromRow: (row: R) => T;
+  compare: (a: T, b: T) => number;
+}
+
+const pushCached = async <T extends { id: string }, R extends object>(spec: CachedTable<T, R>, businessId: string, items: T[]): Promise<boolean> => {
+  const { error } = await supabase.from(spec.table).upsert(items.map(item => spec.toRow(businessId, item)));
+  if (error) console.error(`${spec.table} save error:`, error);
+  return !error;
+};
+
+const loadCached = async <T extends { id: string }, R extends object>(spec: CachedTable<T, R>, businessId: string): Promise<T[]> => {
+  const cached = await getLocalSetting<T[]>(businessId, spec.cacheKey) || [];
+  const pendingIds = await getLocalSetting<string[]>(businessId, spec.pendingKey) || [];
+  const pending = cached.filter(item => pendingIds.includes(item.id));
+  if (pending.length > 0 && await pushCached(spec, businessId, pending)) {
+    await putLocalSetting(businessId, spec.pendingKey, []);
+  }
+
+  const { data, error } = await supabase.from(spec.table).select('*').eq('business_id', businessId);
+  if (error) {
+    console.error(`${spec.table} fetch error:`, error);
+    return cached;
+  }
+
+  // Items still waiting to be pushed win over the server copy.
+  const merged = new Map(((data || []) as R[]).map(row => {
+    const item = spec.fromRow(row);
+    return [item.id, item];
+  }));
+  pending.forEach(item => merged.set(item.id, item));
+  const items = [...merged.values()].sort(spec.compare);
+  await putLocalSetting(businessId, spec.cacheKey, items);
+  return items;
+};
+
+const saveCached = async <T extends { id: string }, R extends object>(spec: CachedTable<T, R>, businessId: string, changed: T[], all: T[]): Promise<void> => {
+  if (changed.length === 0) return;
+  await putLocalSetting(businessId, spec.cacheKey, all);
+  if (!(await pushCached(spec, businessId, changed))) {
+    const pendingIds = await getLocalSetting<string[]>(businessId, spec.pendingKey) || [];
+    await putLocalSetting(businessId, spec.pendingKey, [...new Set([...pendingIds, ...changed.map(item => item.id)])]);
+  }
+};
+
+const PRODUCTS: CachedTable<Product, ProductRow> = {
+  table: 'products',
+  cacheKey: 'products',
+  pendingKey: 'pendingProducts',
+  toRow: toProductRow,
+  fromRow: fromProductRow,
+  compare: (a, b) => a.name.localeCompare(b.name)
+};
+
+/**
+ * Loads the product list from Supabase, first pushing any products saved offline. Falls back
+ * to the copy on this device when the server can't be reached.
+ */
+export const getProducts = (businessId: string): Promise<Product[]> => loadCached(PRODUCTS, businessId);
+
+/**
+ * Saves new or changed products on this device straight away, then to Supabase. Products that
+ * fail to upload are retried by the next `getProducts`.
+ */
+export const saveProducts = (businessId: string, changed: Product[], all: Product[]): Promise<void> =>
+  saveCached(PRODUCTS, businessId, changed, all);
+
+interface TemplateRow {
+  id: string;
+  business_id: string;
+  type: TransactionType;
+  amount: number;
+  currency?: string | null;
+  category: string;
+  counterparty?: string | null;
+  note?: string | null;
+  schedule: Schedule;
+  starts_on: string;
+  handled_through: string | null;
+  active: boolean;
+}
+
+const toTemplateRow = (businessId: string, { startsOn, handledThrough, ...template }: RecurringTemplate): TemplateRow => ({
+  ...template,
+  starts_on: startsOn,
+  handled_through: handledThrough ?? null,
+  business_id: businessId
+});
+
+const fromTemplateRow = ({ business_id, starts_on, handled_through, ...row }: TemplateRow): RecurringTemplate => ({
+  ...row,
+  amount: Number(row.amount),
+  currency: row.currency ?? undefined,
+  counterparty: row.counterparty ?? undefined,
+  note: row.note ?? undefined,
+  startsOn: starts_on,
+  handledThrough: handled_through ?? undefined
+});
+
+const TEMPLATES: CachedTable<RecurringTemplate, TemplateRow> = {
+  table: 'recurring_templates',
+  cacheKey: 'recurringTemplates',
+  pendingKey: 'pendingRecurringTemplates',
+  toRow: toTemplateRow,
+  fromRow: fromTemplateRow,
+  compare: (a, b) => a.category.localeCompare(b.category)
+};
+
+export const getRecurringTemplates = (businessId: string): Promise<RecurringTemplate[]> => loadCached(TEMPLATES, businessId);
+
+export const saveRecurringTemplates = (businessId: string, changed: RecurringTemplate[], all: RecurringTemplate[]): Promise<void> =>
+  saveCached(TEMPLATES, businessId, changed, all);
+
+interface MemberRow {
+  id: string;
+  business_id: string;
+  user_id: string | null;
+  email: string;
+  role: Role;
+  status: Member['status'];
+}
+
+const toMember = (row: MemberRow): Member => ({
+  id: row.id,
+  businessId: row.business_id,
+  userId: row.user_id ?? undefined,
+  email: row.email,
+  role: row.role,
+  status: row.status
+});
+
+/**
+ * Sets up a new sign-up as the owner of their own business, whose id is the owner's user id.
+ */
 export const saveUserProfile = async (user: User) => {
   const { error } = await supabase
     .from('profiles')
@@ -36,26 +771,317 @@ export const saveUserProfile = async (user: User) => {
     });
     
   if (error) console.error("Profile save error:", error);
+
+  await saveBusiness(user);
+
+  const { error: memberError } = await supabase
+    .from('memberships')
+    .upsert({ business_id: user.businessId, user_id: user.id, email: user.email.toLowerCase(), role: 'owner', status: 'active' }, { onConflict: 'business_id,email' });
+
+  if (memberError) console.error("Membership save error:", memberError);
 };
 
-export const getUserProfile = async (userId: string): Promise<User | null> => {
-  const { data, error } = await supabase
-    .from('profiles')
+export const saveBusiness = async (user: User) => {
+  const { error } = await supabase
+    .from('businesses')
+    .upsert({ id: user.businessId, name: user.businessName, currency: user.currency, owner_id: user.businessId });
+
+  if (error) console.error("Business save error:", error);
+};
+
+/**
+ * Resolves the business the user works in and their role there. A pending invitation to their
+ * email is accepted on first sign-in; accounts from before team support become the owner of a
+ * business set up from their profile.
+ */
+export const getUserProfile = async (userId: string, email: string): Promise<User | null> => {
+  const { data: memberships } = await supabase
+    .from('memberships')
     .select('*')
-    .eq('id', userId)
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .limit(1);
+
+  let membership = memberships?.[0];
+
+  if (!membership) {
+    // Matched on the server against the email the session was issued for (see supabase/schema.sql).
+    const { data: accepted, error } = await supabase.rpc('accept_invitation');
+    if (error) console.error("Invitation accept error:", error);
+    membership = accepted?.[0];
+  }
+
+  if (!membership) {
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .single();
+
+    if (error || !profile) return null;
+
+    const owner: User = {
+      id: userId,
+      email,
+      businessId: userId,
+      role: 'owner',
+      businessName: profile.business_name,
+      currency: profile.currency
+    };
+    await saveUserProfile(owner);
+    return owner;
+  }
+
+  const { data: business, error } = await supabase
+    .from('businesses')
+    .select('*')
+    .eq('id', membership.business_id)
     .single();
 
-  if (error || !data) return null;
-  
+  if (error || !business) return null;
+
   return {
-    id: data.id,
-    email: '', // Email comes from auth
-    businessName: data.business_name,
-    currency: data.currency
+    id: userId,
+    email,
+    businessId: business.id,
+    role: membership.role,
+    businessName: business.name,
+    currency: business.currency
   };
 };
 
+export const getMembers = async (businessId: string): Promise<Member[]> => {
+  const { data, error } = await supabase
+    .from('memberships')
+    .select('*')
+    .eq('business_id', businessId)
+    .order('email');
+
+  if (error) console.error("Members fetch error:", error);
+  return (data || []).map(toMember);
+};
+
+/**
+ * Records the invitation and emails the person a sign-in link. Signing in with that email
+ * accepts it (see `getUserProfile`).
+ */
+export const inviteMember = async (businessId: string, email: string, role: Role): Promise<Member> => {
+  const { data, error } = await supabase
+    .from('memberships')
+    .insert([{ business_id: businessId, email: email.trim().toLowerCase(), role, status: 'invited' }])
+    .select();
+
+  if (error || !data) throw error || new Error("Invitation was not saved");
+
+  const { error: mailError } = await supabase.auth.signInWithOtp({
+    email: email.trim(),
+    options: { shouldCreateUser: true, emailRedirectTo: window.location.origin }
+  });
+  if (mailError) console.error("Invitation email error:", mailError);
+
+  return toMember(data[0]);
+};
+
+export const updateMemberRole = async (memberId: string, role: Role): Promise<void> => {
+  const { error } = await supabase.from('memberships').update({ role }).eq('id', memberId);
+  if (error) throw error;
+};
+
+export const removeMember = async (memberId: string): Promise<void> => {
+  const { error } = await supabase.from('memberships').delete().eq('id', memberId);
+  if (error) throw error;
+};
+
 export const logoutUser = async () => {
   await supabase.auth.signOut();
   window.location.reload();
 };
+
+interface CategoryRow {
+  id: string;
+  business_id: string;
+  name: string;
+  kind: CategoryKind | null;
+  icon: string | null;
+  color: string | null;
+  aliases: string[] | null;
+  monthly_budget: number | null;
+}
+
+const toCategoryRow = (businessId: string, { monthlyBudget, ...category }: Category): CategoryRow => ({
+  ...category,
+  monthly_budget: monthlyBudget ?? null,
+  business_id: businessId
+});
+
+const fromCategoryRow = ({ business_id, monthly_budget, ...row }: CategoryRow): Category => ({
+  ...row,
+  kind: row.kind || 'expense',
+  icon: row.icon || '🏷️',
+  color: row.color || '#64748b',
+  aliases: row.aliases || [],
+  monthlyBudget: monthly_budget == null ? undefined : Number(monthly_budget)
+});
+
+const CATEGORIES: CachedTable<Category, CategoryRow> = {
+  table: 'categories',
+  cacheKey: 'categories',
+  pendingKey: 'pendingCategories',
+  toRow: toCategoryRow,
+  fromRow: fromCategoryRow,
+  compare: (a, b) => a.name.localeCompare(b.name)
+};
+
+/**
+ * Loads the business's category list. A business without one starts from the default list.
+ */
+export const getCategories = async (businessId: string): Promise<Category[]> => {
+  const categories = await loadCached(CATEGORIES, businessId);
+  if (categories.length > 0) return categories;
+  const defaults = defaultCategories().sort(CATEGORIES.compare);
+  await saveCached(CATEGORIES, businessId, defaults, defaults);
+  return defaults;
+};
+
+export const saveCategories = (businessId: string, changed: Category[], all: Category[]): Promise<void> =>
+  saveCached(CATEGORIES, businessId, changed, all);
+
+/**
+ * Deletes a category once its entries have moved elsewhere. Needs a connection, like the
+ * re-categorisation that comes before it.
+ */
+export const deleteCategory = async (businessId: string, id: string, remaining: Category[]): Promise<void> => {
+  const { error } = await supabase.from(CATEGORIES.table).delete().eq('id', id);
+  if (error) throw error;
+  await putLocalSetting(businessId, CATEGORIES.cacheKey, remaining);
+};
+
+/**
+ * Moves every entry filed under one of `spellings` (trimmed, lower-case) to `category`, on the
+ * server through the `recategorize_transactions` function and in this device's outbox. Each
+ * moved entry keeps an EDIT revision. Returns how many server entries moved.
+ */
+export const recategorizeTransactions = async (user: LedgerUser, spellings: string[], category: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('recategorize_transactions', {
+    p_business_id: user.businessId,
+    p_from: spellings,
+    p_to: category
+  });
+  if (error) throw error;
+
+  const queued = await getQueuedTransactions(user.id);
+  const moved = queued
+    .filter(entry => spellings.includes((entry.category || 'General').trim().toLowerCase()) && entry.category !== category)
+    .map(entry => ({ ...entry, category }));
+  if (moved.length > 0) await putQueuedTransactions(moved);
+  return Number(data) || 0;
+};
+
+interface InvoiceRow {
+  id: string;
+  business_id: string;
+  number: number;
+  counterparty: string;
+  lines: InvoiceLine[] | null;
+  issued_at: string;
+}
+
+const toInvoiceRow = (businessId: string, { issuedAt, ...invoice }: Invoice): InvoiceRow => ({
+  ...invoice,
+  issued_at: issuedAt,
+  business_id: businessId
+});
+
+const fromInvoiceRow = ({ business_id, issued_at, ...row }: InvoiceRow): Invoice => ({
+  ...row,
+  lines: (row.lines || []).map(line => ({ ...line, amount: Number(line.amount) })),
+  issuedAt: issued_at
+});
+
+const INVOICES: CachedTable<Invoice, InvoiceRow> = {
+  table: 'invoices',
+  cacheKey: 'invoices',
+  pendingKey: 'pendingInvoices',
+  toRow: toInvoiceRow,
+  fromRow: fromInvoiceRow,
+  compare: (a, b) => b.number - a.number
+};
+
+export const getInvoices = (businessId: string): Promise<Invoice[]> => loadCached(INVOICES, businessId);
+
+export const saveInvoices = (businessId: string, changed: Invoice[], all: Invoice[]): Promise<void> =>
+  saveCached(INVOICES, businessId, changed, all);
+
+interface PaymentReceiptRow {
+  id: string;
+  business_id: string;
+  number: number;
+  counterparty: string;
+  amount: number;
+  paid_at: string;
+  balance_after: number;
+  issued_at: string;
+}
+
+const toPaymentReceiptRow = (businessId: string, { paidAt, balanceAfter, issuedAt, ...receipt }: PaymentReceipt): PaymentReceiptRow => ({
+  ...receipt,
+  paid_at: paidAt,
+  balance_after: balanceAfter,
+  issued_at: issuedAt,
+  business_id: businessId
+});
+
+const fromPaymentReceiptRow = ({ business_id, paid_at, balance_after, issued_at, ...row }: PaymentReceiptRow): PaymentReceipt => ({
+  ...row,
+  amount: Number(row.amount),
+  paidAt: paid_at,
+  balanceAfter: Number(balance_after),
+  issuedAt: issued_at
+});
+
+const PAYMENT_RECEIPTS: CachedTable<PaymentReceipt, PaymentReceiptRow> = {
+  table: 'payment_receipts',
+  cacheKey: 'paymentReceipts',
+  pendingKey: 'pendingPaymentReceipts',
+  toRow: toPaymentReceiptRow,
+  fromRow: fromPaymentReceiptRow,
+  compare: (a, b) => b.number - a.number
+};
+
+export const getPaymentReceipts = (businessId: string): Promise<PaymentReceipt[]> => loadCached(PAYMENT_RECEIPTS, businessId);
+
+export const savePaymentReceipts = (businessId: string, changed: PaymentReceipt[], all: PaymentReceipt[]): Promise<void> =>
+  saveCached(PAYMENT_RECEIPTS, businessId, changed, all);
+
+/**
+ * The next invoice or receipt number of the business, from the `next_document_number` function.
+ * Numbers are counted on the server so two devices never issue the same one, which means issuing
+ * needs a connection.
+ */
+export const allocateDocumentNumber = async (businessId: string, kind: 'invoice' | 'receipt'): Promise<number> => {
+  const { data, error } = await supabase.rpc('next_document_number', {
+    p_business_id: businessId,
+    p_kind: kind
+  });
+  if (error) throw error;
+  return Number(data);
+};
+
+/**
+ * Uploads an invoice or receipt and returns a link the customer can open for a week, or null
+ * when it can't be uploaded right now.
+ */
+export const getDocumentLink = async (businessId: string, file: Blob, fileName: string): Promise<string | null> => {
+  const path = `${businessId}/${crypto.randomUUID()}/${fileName}`;
+  const { error } = await supabase.storage.from(DOCUMENT_BUCKET).upload(path, file, { contentType: file.type });
+  if (error) {
+    console.error("Document upload error:", error);
+    return null;
+  }
+  const { data, error: linkError } = await supabase.storage.from(DOCUMENT_BUCKET).createSignedUrl(path, 7 * 24 * 60 * 60);
+  if (linkError) {
+    console.error("Document link error:", linkError);
+    return null;
+  }
+  return data.signedUrl;
+};
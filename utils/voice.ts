@@ -0,0 +1,89 @@
+/**
+ * Microphone capture for voice entries. A recording is sent to the AI provider for transcription,
+ * which copes with Luganda and mixed-language speech; the browser's speech recognition is the
+ * fallback when the provider can't be reached.
+ */
+
+export interface VoiceCapture<T = string> {
+  stop: () => Promise<T>;
+  cancel: () => void;
+}
+
+// Gemini reads ogg and mp4 audio reliably; Chrome only records webm.
+const RECORDING_TYPES = ['audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+export const startRecording = async (): Promise<VoiceCapture<Blob>> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => e.data.size > 0 && chunks.push(e.data);
+  recorder.start();
+
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  return {
+    stop: () => new Promise(resolve => {
+      recorder.onstop = () => {
+        release();
+        resolve(new Blob(chunks, { type: recorder.mimeType.split(';')[0] || 'audio/webm' }));
+      };
+      recorder.stop();
+    }),
+    cancel: () => {
+      recorder.onstop = release;
+      recorder.stop();
+    },
+  };
+};
+
+// The parts of the Web Speech API used here; TypeScript's DOM library only has the result types.
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((e: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onerror: ((e: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+const getSpeechRecognition = (): SpeechRecognitionConstructor | undefined => {
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition || speechWindow.webkitSpeechRecognition;
+};
+
+export const canRecognizeSpeech = (): boolean => !!getSpeechRecognition();
+
+export const startSpeechRecognition = (lang = navigator.language): VoiceCapture => {
+  const Recognition = getSpeechRecognition();
+  if (!Recognition) throw new Error("Speech recognition is not supported on this device.");
+  const recognition = new Recognition();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = false;
+
+  const parts: string[] = [];
+  let failure: string | null = null;
+  recognition.onresult = e => {
+    for (let i = e.resultIndex; i < e.results.length; i++) {
+      if (e.results[i].isFinal) parts.push(e.results[i][0].transcript.trim());
+    }
+  };
+  recognition.onerror = e => { failure = e.error; };
+  recognition.start();
+
+  return {
+    stop: () => new Promise((resolve, reject) => {
+      recognition.onend = () => failure && failure !== 'no-speech' ? reject(new Error(failure)) : resolve(parts.join(' '));
+      recognition.stop();
+    }),
+    cancel: () => recognition.abort(),
+  };
+};
@@ -10,6 +10,8 @@ export default defineConfig(({ mode }) => {
     plugins: [react()],
     define: {
       'process.env.API_KEY': JSON.stringify(env.API_KEY || ""),
+      'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL || ""),
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ""),
       'process.env': JSON.stringify(env),
     }
   };